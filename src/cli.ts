@@ -4,11 +4,13 @@
  * Git for humans - command line edition
  */
 
-import { SacredTimeline } from './git-wrapper';
+import { FileFinding, SacredTimeline, SecretFinding, TimelineGraph, UntangleChoice } from './git-wrapper';
+import { eraseCredential, formatCredential, getCredential, parseCredential, storeCredential } from './credential-store';
 import { execSync } from 'child_process';
 import * as fs from 'fs';
 import * as path from 'path';
 import * as os from 'os';
+import * as readline from 'readline';
 
 const color = {
     bold: (s: string) => `\x1b[1m${s}\x1b[0m`,
@@ -70,8 +72,8 @@ function cleanMessage(message: string): string {
 }
 
 // Group timeline entries by date
-function groupByDate(entries: { date: Date; message: string; relativeDate: string; hash: string; shortHash: string; author: string }[]): { [key: string]: typeof entries } {
-    const groups: { [key: string]: typeof entries } = {};
+function groupByDate<T extends { date: Date }>(entries: T[]): { [key: string]: T[] } {
+    const groups: { [key: string]: T[] } = {};
     const now = new Date();
     const today = new Date(now.getFullYear(), now.getMonth(), now.getDate());
     const yesterday = new Date(today.getTime() - 86400000);
@@ -98,6 +100,75 @@ function groupByDate(entries: { date: Date; message: string; relativeDate: strin
     return groups;
 }
 
+// Draw main and each experiment in its own lane, newest capture at the top
+function renderGraph(graph: TimelineGraph): string[] {
+    const width = Math.max(0, ...graph.lanes.map(l => l.lane)) + 1;
+    const laneColor = (column: number) => [color.green, color.cyan, color.blue, color.yellow][column % 4];
+    // Is a lane's line running down this column between row and row + 1?
+    const spans = (column: number, row: number) => graph.lanes.some(l =>
+        l.lane === column && l.top <= row && (l.bottom === null || row + 1 <= l.bottom));
+
+    // One line joining a lane to the capture it forked from or the keep that closed it
+    const connector = (row: number, from: number, to: number, kind: 'keep' | 'fork'): string => {
+        const right = to > from;
+        const [lo, hi] = right ? [from, to] : [to, from];
+        const up = kind === 'keep' || spans(from, row);
+        const down = kind === 'fork' || spans(from, row);
+        const cells: string[] = [];
+        for (let c = 0; c < width; c++) {
+            let cell = spans(c, row) && c !== to ? laneColor(c)('│') : ' ';
+            if (c === from) {
+                cell = up && down ? (right ? '├' : '┤') : up ? (right ? '╰' : '╯') : (right ? '╭' : '╮');
+            } else if (c === to) {
+                cell = kind === 'keep' ? (right ? '╮' : '╭') : (right ? '╯' : '╰');
+            } else if (c > lo && c < hi) {
+                cell = cell === ' ' ? '─' : '┼';
+            }
+            cells.push(c >= lo && c <= hi ? laneColor(to)(cell) : cell);
+            if (c < width - 1) {
+                cells.push(c >= lo && c < hi ? laneColor(to)('─') : ' ');
+            }
+        }
+        return '  ' + cells.join('');
+    };
+
+    const lines: string[] = [];
+    graph.nodes.forEach((node, row) => {
+        const cells: string[] = [];
+        for (let c = 0; c < width; c++) {
+            if (c === node.lane) {
+                cells.push(node.milestones?.length ? color.yellow('◆') : laneColor(c)('●'));
+            } else {
+                const passing = graph.lanes.some(l => l.lane === c && l.top < row && (l.bottom === null || row < l.bottom));
+                cells.push(passing ? laneColor(c)('│') : ' ');
+            }
+        }
+
+        const cleanMsg = cleanMessage(node.message);
+        const displayMsg = cleanMsg.length > 42 ? cleanMsg.substring(0, 39) + '...' : cleanMsg;
+        const lane = graph.lanes.find(l => l.id === node.branch);
+        const tags = [
+            // Name each experiment once, beside its newest capture
+            lane && lane.state !== 'main' && graph.nodes.findIndex(n => n.branch === node.branch) === row
+                ? color.cyan(`🧪 ${lane.humanName}`) : '',
+            ...node.keeps.map(name => color.green(`kept "${name}"`)),
+            ...node.forks.map(name => color.dim(`"${name}" started here`)),
+            node.milestones?.length ? color.yellow(`🏁 ${node.milestones.join(', ')}`) : ''
+        ].filter(Boolean);
+
+        lines.push(`  ${cells.join(' ')}  ${getSmartIcon(node.message)} ${displayMsg}` +
+            (tags.length ? '  ' + tags.join('  ') : '') + color.dim(`  ${node.relativeDate}`));
+
+        graph.lanes.filter(l => l.keptAt === node.hash).forEach(l => lines.push(connector(row, node.lane, l.lane, 'keep')));
+        const next = graph.nodes[row + 1];
+        if (next) {
+            graph.lanes.filter(l => l.bottom === row + 1).forEach(l => lines.push(connector(row, next.lane, l.lane, 'fork')));
+        }
+    });
+
+    return lines;
+}
+
 // Get color based on recency (green -> grey fade)
 function getRecencyColor(dateLabel: string, groupIndex: number, totalGroups: number): (s: string) => string {
     if (dateLabel === 'Today') return color.green;
@@ -112,33 +183,367 @@ function getHelpText(): string {
 ${color.bold('Sacred Timeline')} - Git for humans
 
 ${color.dim('Commands:')}
-  ${color.green('capture')} "message"     Save this moment with a description
+  ${color.green('capture')} "message"     Save this moment with a description (leave it out for a suggestion)
+      --file <path>        Only capture this file, folder or pattern (repeatable)
+      --note "text"        Add a note: why, and what comes next (repeatable)
+      --allow-large        Capture even huge, binary or generated files
+      --allow-secrets      Capture even if it looks like a key or password is in it
+  ${color.green('check')}                Look for files too big to capture (limits in .sacred.json)
+  ${color.green('ignore')} <path>        Leave a file or folder out of every capture
+  ${color.green('lfs')} <path>           Store a big file with Git LFS instead
+  ${color.green('annotate')} <hash>       Add a note to an earlier capture: sacred annotate <hash> "note"
+  ${color.green('uncapture')}            Take back the last capture (files stay as they are)
+      --reword "message"   Keep the capture, just fix its message
   ${color.green('latest')}               Bring the latest from cloud
+      --preview            Check for tangles first, without changing anything
   ${color.green('backup')}               Send to cloud
+      --allow-secrets      Send even if a capture looks like it holds a key or password
+  ${color.green('secrets')}              Look for API keys, tokens and passwords in your changes
+      --outgoing           Look in what backup would send instead
+  ${color.green('watch')}                Capture by itself whenever you pause (Ctrl+C to stop)
+      --idle <minutes>     Quiet minutes before capturing (default: 10)
+      --backup             Back up to cloud after each auto-capture
   ${color.green('backup-all')}           Backup all worktrees (for multi-branch repos)
   ${color.green('changes')}              What did I change?
-  ${color.green('timeline')}             Show me history
+      --words              Words written and cut per file (.md, .txt, .html)
+  ${color.green('timeline')}             Show me history (30 captures at a time)
+      --page <n>           Older captures: page 2, 3, ...
+      --graph              Draw main and every experiment as lanes (on its own, no filters)
+      --since / --until    Only captures in a time range ("2 weeks ago", "2026-01-31")
+      --author "name"      Only captures by this person
+      --file <path>        Only captures that touched this file or folder
+      --experiment "name"  The history of an experiment (or "main")
+  ${color.green('search')} "text"        Find the captures that mention or changed this text
+      --messages           Only look in capture messages and notes
+      --content            Only look in what captures added or removed
+      --file <path>        Only captures that touched this file or folder
+      --since / --until    Limit to a time range ("2 weeks ago", "2026-01-31")
+      --regex              Treat the text as a regular expression
   ${color.green('narrate')} [days]       Tell me the story of my recent work (default: 7 days)
+      --file <path>        Tell the story of one file instead
+      --experiment "name"  Tell the story of one experiment (running, kept or discarded)
+      --no-cache           Re-read all history instead of using the saved summary
   ${color.green('experiment')} "name"    Try something risky (create branch)
+  ${color.green('experiments')}          List experiments and how far each has drifted
+  ${color.green('switch')} "name"        Move to another experiment (or "main")
+  ${color.green('compare')} ["name"]     What would keeping this experiment change?
   ${color.green('keep')}                 Keep the experiment (merge to main)
+      --preview            Check for tangles first, without changing anything
   ${color.green('discard')}              Abandon experiment (delete branch)
   ${color.green('restore')} <hash>       Go back to earlier moment
+      --file <path>        Only bring back this file from that moment
+      --bring-back         Bring that moment back as a new capture (stay on the timeline)
+      --milestone "name"   Go back to a milestone instead of a hash
+  ${color.green('milestone')} "name"     Mark the latest capture as a milestone (backed up, never pruned)
+      --at <hash>          Mark an earlier capture instead
+  ${color.green('milestones')}           List milestones
+  ${color.green('return')}               Back to my timeline after visiting an earlier moment
+  ${color.green('rescue')} [number]      List safety snapshots, or bring one back
+  ${color.green('untangle')}             Walk through tangled files one by one
+      mine|theirs|both <file>   Settle one file without prompts
+      resolved <file>      Mark a file you fixed by hand
+      abandon              Give up and go back to before the keep/latest
   ${color.green('start')}                Begin fresh project (git init)
-  ${color.green('connect')} <url>        Link to cloud (add remote)
+  ${color.green('connect')} <url>        Link to cloud: GitHub, GitLab, Bitbucket, Gitea or your own server (HTTPS or SSH)
+  ${color.green('secure')}               Move a token saved by an older version out of the project
   ${color.green('status')}               Show current state
   ${color.green('doctor')}               Check Sacred Timeline setup
   ${color.green('init-shell')}           Setup auto-status on cd (add to .zshrc)
 
 ${color.dim('Examples:')}
   sacred capture "finished draft of chapter 3"
+  sacred capture "chapter 3 done" --file chapter3.md --file "notes/*.md"
+  sacred capture "new intro" --note "Client wanted it punchier. Next: trim chapter 1."
+  sacred annotate a1b2c3d "Sent to the client for review"
+  sacred check
+  sacred secrets --outgoing
+  sacred lfs video/demo.mp4
   sacred experiment "bold-new-intro"
+  sacred switch "bold-new-intro"
+  sacred restore a1b2c3d --file chapter3.md
+  sacred restore a1b2c3d --bring-back
+  sacred milestone "Sent draft to client"
+  sacred restore --milestone "Sent draft to client"
+  sacred search "pricing section" --content --since "1 month ago"
   sacred narrate
   sacred narrate 30
+  sacred narrate --file chapter3.md
+  sacred narrate --experiment "bold-new-intro"
   sacred timeline
+  sacred timeline --since "last monday" --file chapter3.md --page 2
   sacred status --json
 `;
 }
 
+// Pull every "--name value" pair out of the argument list, leaving the rest in place
+function takeOption(args: string[], name: string): string[] {
+    const values: string[] = [];
+    for (let i = 0; i < args.length; i++) {
+        if (args[i] === name && i + 1 < args.length) {
+            values.push(args[i + 1]);
+            args.splice(i, 2);
+            i--;
+        }
+    }
+    return values;
+}
+
+// Remove a bare "--name" switch from the argument list, reporting whether it was there
+function takeFlag(args: string[], name: string): boolean {
+    const index = args.indexOf(name);
+    if (index === -1) {
+        return false;
+    }
+    args.splice(index, 1);
+    return true;
+}
+
+function printPreview(result: { success: boolean; message: string; wouldConflict: boolean; tangledFiles: string[]; blockedByUnsaved: string[] }): void {
+    if (!result.success) {
+        console.log(color.yellow('○ ') + result.message);
+        return;
+    }
+    const clear = !result.wouldConflict && result.blockedByUnsaved.length === 0;
+    console.log((clear ? color.green('✓ ') : color.yellow('⚠ ')) + result.message);
+    result.tangledFiles.forEach(f => console.log(color.red('  ✗ ') + f));
+    result.blockedByUnsaved.forEach(f => console.log(color.yellow('  ○ ') + f + color.dim(' (unsaved)')));
+    console.log(color.dim('Preview only - nothing was changed.'));
+}
+
+function ask(question: string, keepCase: boolean = false): Promise<string> {
+    const rl = readline.createInterface({ input: process.stdin, output: process.stdout });
+    return new Promise(resolve => rl.question(question, answer => {
+        rl.close();
+        resolve(keepCase ? answer.trim() : answer.trim().toLowerCase());
+    }));
+}
+
+function printFindings(findings: FileFinding[]): void {
+    for (const finding of findings) {
+        const icon = finding.kind === 'generated' ? '📦 ' : '🐘 ';
+        console.log('  ' + icon + color.bold(finding.path));
+        console.log(color.dim(`    ${finding.detail}`));
+    }
+}
+
+function printSecrets(findings: SecretFinding[]): void {
+    for (const finding of findings) {
+        const where = finding.line > 0 ? `${finding.path}:${finding.line}` : finding.path;
+        const capture = finding.hash ? color.dim(` in capture ${finding.hash.substring(0, 7)}`) : '';
+        console.log(`  ${color.bold(where)}${capture}  ${finding.description} ${color.dim(finding.preview)}`);
+    }
+}
+
+// Interactive large-file guard: ignore or LFS each file, or capture them anyway
+async function settleFindings(sacred: SacredTimeline, findings: FileFinding[]): Promise<'retry' | 'anyway' | 'quit'> {
+    for (const finding of findings) {
+        const suggested = finding.recommended === 'lfs' ? 'l' : 'i';
+        const answer = await ask(`  ${finding.path}: [i]gnore, [l]fs, [c]apture anyway, [q]uit? (${suggested}) `) || suggested;
+        if (answer === 'q' || answer === 'quit') {
+            return 'quit';
+        }
+        if (answer === 'c' || answer === 'capture') {
+            return 'anyway';
+        }
+        const result = answer === 'l' || answer === 'lfs'
+            ? await sacred.moveToLfs(finding.path)
+            : await sacred.ignoreFile(finding.path);
+        console.log((result.success ? color.green('  ✓ ') : color.red('  ✗ ')) + result.message);
+        if (!result.success) {
+            return 'quit';
+        }
+    }
+    return 'retry';
+}
+
+// Like ask, but nothing typed is shown, for tokens
+function askSecret(question: string): Promise<string> {
+    const rl = readline.createInterface({ input: process.stdin, output: process.stdout, terminal: true });
+    const output = rl as unknown as { _writeToOutput: (text: string) => void };
+    let asked = false;
+    output._writeToOutput = (text: string) => {
+        if (!asked) {
+            asked = true;
+            process.stdout.write(text);
+        }
+    };
+    return new Promise(resolve => rl.question(question, answer => {
+        rl.close();
+        process.stdout.write('\n');
+        resolve(answer.trim());
+    }));
+}
+
+// Interactive untangle: one question per tangled file
+async function runUntangle(sacred: SacredTimeline): Promise<void> {
+    const state = await sacred.listTangles();
+    if (!state.inProgress || state.files.length === 0) {
+        console.log(color.green('✓ ') + 'Nothing is tangled. Your timeline is whole.');
+        return;
+    }
+
+    console.log(color.bold(`\n🧶 ${state.files.length} tangled file${state.files.length !== 1 ? 's' : ''}\n`));
+    console.log(color.dim(`  mine   = ${state.mine}`));
+    console.log(color.dim(`  theirs = ${state.theirs}\n`));
+
+    for (const file of state.files) {
+        console.log(color.yellow('⚠ ') + color.bold(file.path));
+        if (!file.inMine) console.log(color.dim(`    (removed in ${state.mine})`));
+        if (!file.inTheirs) console.log(color.dim(`    (removed in ${state.theirs})`));
+
+        const answer = await ask('  [m]ine, [t]heirs, [b]oth, [r]esolved by hand, [s]kip, [a]bandon all? ');
+        if (answer === 'a' || answer === 'abandon') {
+            const result = await sacred.abandonUntangle();
+            console.log((result.success ? color.green('↩ ') : color.red('✗ ')) + result.message);
+            return;
+        }
+
+        const choices: { [key: string]: UntangleChoice } = { m: 'mine', mine: 'mine', t: 'theirs', theirs: 'theirs', b: 'both', both: 'both' };
+        let result;
+        if (choices[answer]) {
+            result = await sacred.untangleFile(file.path, choices[answer]);
+        } else if (answer === 'r' || answer === 'resolved') {
+            result = await sacred.markUntangled(file.path);
+        } else {
+            console.log(color.dim('  Skipped.\n'));
+            continue;
+        }
+
+        console.log((result.success ? color.green('  ✓ ') : color.red('  ✗ ')) + result.message + '\n');
+        if (result.finished) return;
+    }
+
+    console.log(color.dim('Run "sacred untangle" again to finish the rest.'));
+}
+
+// Git's own bookkeeping (including our captures) and installed packages aren't your work
+const UNWATCHED_FOLDERS = new Set(['.git', 'node_modules']);
+
+// Watch the folder and capture once it has been quiet for a while, until Ctrl+C
+function watchAndCapture(sacred: SacredTimeline, root: string, quietMinutes: number, backupAfter: boolean, json: boolean): Promise<void> {
+    return new Promise(resolve => {
+        let timer: NodeJS.Timeout | undefined;
+        let capturing = false;
+        let captures = 0;
+        const time = () => new Date().toLocaleTimeString('en-US', { hour: '2-digit', minute: '2-digit' });
+        // One JSON object per line, so agents can follow along
+        const emit = (event: Record<string, unknown>, line: string) => {
+            console.log(json ? JSON.stringify({ ...event, at: new Date().toISOString() }) : line);
+        };
+
+        const captureNow = async () => {
+            if (capturing) {
+                schedule();
+                return;
+            }
+            capturing = true;
+            const result = await sacred.autoCapture({ backup: backupAfter });
+            capturing = false;
+
+            if (result.captured) {
+                captures++;
+                emit({ event: 'captured', ...result }, color.green('📸 ') + color.dim(time() + '  ') + result.message);
+            } else if (!result.success) {
+                emit({ event: 'skipped', ...result }, color.yellow('○ ') + color.dim(time() + '  ') + result.message);
+            }
+        };
+
+        const schedule = () => {
+            if (timer) clearTimeout(timer);
+            timer = setTimeout(captureNow, quietMinutes * 60000);
+        };
+
+        // One watcher per folder, so folders that are never your work cost nothing to watch
+        const watchers = new Map<string, fs.FSWatcher>();
+        let stopped = false;
+
+        const watchFolder = (dir: string) => {
+            if (stopped || watchers.has(dir)) return;
+            let entries: fs.Dirent[];
+            try {
+                entries = fs.readdirSync(dir, { withFileTypes: true });
+                const watcher = fs.watch(dir, (_event, filename) => {
+                    const name = filename ? filename.toString() : '';
+                    if (UNWATCHED_FOLDERS.has(name)) return;
+                    schedule();
+                    if (!name) return;
+
+                    // New folders get their own watcher; removed ones let theirs go
+                    const full = path.join(dir, name);
+                    fs.stat(full, (err, stats) => {
+                        if (!err && stats.isDirectory()) {
+                            watchFolder(full);
+                        } else if (err && watchers.has(full)) {
+                            watchers.get(full)!.close();
+                            watchers.delete(full);
+                        }
+                    });
+                });
+                watcher.on('error', error => {
+                    watcher.close();
+                    watchers.delete(dir);
+                    if (dir === root) fail(error);
+                });
+                watchers.set(dir, watcher);
+            } catch (error) {
+                // A folder that vanished mid-walk is fine; running out of watches is not
+                if ((error as NodeJS.ErrnoException).code === 'ENOENT' && dir !== root) return;
+                fail(error as Error);
+                return;
+            }
+            entries
+                .filter(entry => entry.isDirectory() && !UNWATCHED_FOLDERS.has(entry.name))
+                .forEach(entry => watchFolder(path.join(dir, entry.name)));
+        };
+
+        const close = () => {
+            stopped = true;
+            if (timer) clearTimeout(timer);
+            watchers.forEach(watcher => watcher.close());
+            watchers.clear();
+            process.removeListener('SIGINT', stop);
+            process.removeListener('SIGTERM', stop);
+        };
+
+        const fail = (error: Error) => {
+            if (stopped) return;
+            close();
+            const code = (error as NodeJS.ErrnoException).code;
+            const message = code === 'ENOSPC' || code === 'EMFILE'
+                ? `${path.basename(root)} has more folders than this system lets one program watch. Raise the watch limit (fs.inotify.max_user_watches on Linux) or watch a smaller folder.`
+                : `Could not watch ${path.basename(root)}: ${error.message}`;
+            emit({ event: 'error', message, code }, color.red('✗ ') + message);
+            process.exitCode = 1;
+            resolve();
+        };
+
+        const stop = () => {
+            if (stopped) return;
+            close();
+            emit({ event: 'stopped', captures },
+                '\n' + color.dim(`Stopped watching. ${captures} auto-capture${captures !== 1 ? 's' : ''} this session.`));
+            resolve();
+        };
+        process.once('SIGINT', stop);
+        process.once('SIGTERM', stop);
+
+        watchFolder(root);
+        if (stopped) return;
+
+        emit(
+            { event: 'watching', root, quietMinutes, backup: backupAfter },
+            color.green('👀 ') + `Watching ${path.basename(root)}. ` +
+            `I'll capture after ${quietMinutes} quiet minute${quietMinutes !== 1 ? 's' : ''}` +
+            (backupAfter ? ' and back up to cloud.' : '.') + color.dim(' Ctrl+C to stop.')
+        );
+
+        // Work already waiting gets the same quiet period before its capture
+        sacred.changes().then(changes => {
+            if (changes.hasChanges) schedule();
+        });
+    });
+}
+
 function printJson(value: unknown): void {
     console.log(JSON.stringify(value, null, 2));
 }
@@ -183,6 +588,8 @@ async function buildStatusPayload(sacred: SacredTimeline): Promise<unknown> {
         aheadOfCloud: status.aheadOfCloud,
         behindCloud: status.behindCloud,
         hasConflicts: status.hasConflicts,
+        isDetached: status.isDetached,
+        detachedAt: status.detachedAt,
         connected: remotes.length > 0,
         remotes
     };
@@ -249,7 +656,13 @@ async function buildDoctorPayload(sacred: SacredTimeline, cwd: string): Promise<
             detail: remotes.length > 0 ? remotes.map(remote => remote.name).join(', ') : 'No cloud remote configured'
         });
         if (remotes.length === 0) {
-            recommendations.push('Run `sacred connect <github-url>` to connect this timeline to cloud backup.');
+            recommendations.push('Run `sacred connect <repository-url>` (GitHub, GitLab, Bitbucket, Gitea or your own server) to connect this timeline to cloud backup.');
+        }
+
+        const credentials = await sacred.checkCredentials();
+        checks.push({ name: 'credentials', ok: credentials.ok, detail: credentials.detail });
+        if (!credentials.ok) {
+            recommendations.push('Run `sacred secure` to move the saved login out of the project.');
         }
 
         checks.push({
@@ -266,6 +679,9 @@ async function buildDoctorPayload(sacred: SacredTimeline, cwd: string): Promise<
         if (status.hasConflicts) {
             recommendations.push('Run `sacred untangle` or resolve the tangled timeline before continuing.');
         }
+        if (status.isDetached) {
+            recommendations.push('Run `sacred return` to leave the earlier capture you are visiting and get back to your timeline.');
+        }
     }
 
     const codexSkill = path.join(os.homedir(), '.codex/skills/sacred-timeline/SKILL.md');
@@ -295,10 +711,58 @@ async function buildDoctorPayload(sacred: SacredTimeline, cwd: string): Promise<
     };
 }
 
+// git's credential-helper protocol over stdin/stdout, backed by the encrypted store
+async function runCredentialHelper(operation: string | undefined): Promise<void> {
+    let input = '';
+    for await (const chunk of process.stdin) {
+        input += chunk;
+    }
+    const request = parseCredential(input);
+
+    if (operation === 'get') {
+        const found = getCredential(request);
+        if (found) process.stdout.write(formatCredential(found));
+    } else if (operation === 'store') {
+        storeCredential(request);
+    } else if (operation === 'erase') {
+        eraseCredential(request);
+    }
+}
+
 async function main() {
     const args = process.argv.slice(2);
+
+    // git runs "sacred credential get|store|erase" when this is the credential helper
+    if (args[0] === 'credential') {
+        await runCredentialHelper(args[1]);
+        return;
+    }
+
     const json = args.includes('--json') || args.includes('-j');
     const commandArgs = args.filter(arg => arg !== '--json' && arg !== '-j');
+    const files = takeOption(commandArgs, '--file');
+    const reword = takeOption(commandArgs, '--reword')[0];
+    const bringBack = takeFlag(commandArgs, '--bring-back');
+    const preview = takeFlag(commandArgs, '--preview');
+    const experimentName = takeOption(commandArgs, '--experiment')[0];
+    const noCache = takeFlag(commandArgs, '--no-cache');
+    const wordsView = takeFlag(commandArgs, '--words');
+    const milestoneName = takeOption(commandArgs, '--milestone')[0];
+    const at = takeOption(commandArgs, '--at')[0];
+    const notes = takeOption(commandArgs, '--note');
+    const since = takeOption(commandArgs, '--since')[0];
+    const until = takeOption(commandArgs, '--until')[0];
+    const messagesOnly = takeFlag(commandArgs, '--messages');
+    const contentOnly = takeFlag(commandArgs, '--content');
+    const regex = takeFlag(commandArgs, '--regex');
+    const author = takeOption(commandArgs, '--author')[0];
+    const page = takeOption(commandArgs, '--page')[0];
+    const graphView = takeFlag(commandArgs, '--graph');
+    const idle = takeOption(commandArgs, '--idle')[0];
+    const backupAfter = takeFlag(commandArgs, '--backup');
+    const allowLarge = takeFlag(commandArgs, '--allow-large');
+    const allowSecrets = takeFlag(commandArgs, '--allow-secrets');
+    const outgoing = takeFlag(commandArgs, '--outgoing');
     const command = commandArgs[0]?.toLowerCase();
     const param = commandArgs.slice(1).join(' ');
 
@@ -308,7 +772,7 @@ async function main() {
     }
 
     const cwd = process.cwd();
-    const sacred = new SacredTimeline(cwd);
+    const sacred = new SacredTimeline(cwd, { logCache: !noCache });
 
     // Check if this is a git repo for most commands
     const isRepo = await sacred.isRepository();
@@ -328,23 +792,170 @@ async function main() {
     try {
         switch (command) {
             case 'capture': {
+                let message = param;
+                if (!message) {
+                    // Offer a message built from the changes themselves
+                    const suggested = await sacred.suggestMessage(files);
+                    if (json) {
+                        printJson({ ...suggested, success: false, message: 'Add a message, or capture with the suggestion.' });
+                        process.exit(1);
+                    }
+                    if (!suggested.success) {
+                        console.log(color.yellow('○ ') + suggested.message);
+                        process.exit(1);
+                    }
+                    if (!process.stdin.isTTY) {
+                        console.log(color.yellow('What did you capture? Please add a message.'));
+                        console.log(color.dim('Suggested: ') + `sacred capture "${suggested.suggestion}"`);
+                        process.exit(1);
+                    }
+                    console.log(color.dim('Suggested: ') + color.bold(suggested.suggestion));
+                    const answer = await ask('Capture with this message? (Y/n, or type your own) ', true);
+                    if (answer.toLowerCase() === 'n' || answer.toLowerCase() === 'no') {
+                        console.log(color.dim('Nothing captured.'));
+                        break;
+                    }
+                    message = ['', 'y', 'yes'].includes(answer.toLowerCase()) ? suggested.suggestion : answer;
+                }
+                let result = await sacred.capture(message, files, notes.join('\n\n') || undefined, { allowLargeFiles: allowLarge, allowSecrets });
+                if (json) {
+                    printJson(result);
+                    break;
+                }
+                if (result.findings && result.findings.length > 0) {
+                    console.log(color.yellow('⚠ ') + result.message);
+                    printFindings(result.findings);
+                    if (!process.stdin.isTTY) {
+                        console.log(color.dim('Use sacred ignore <path>, sacred lfs <path>, or capture again with --allow-large.'));
+                        process.exit(1);
+                    }
+                    const choice = await settleFindings(sacred, result.findings);
+                    if (choice === 'quit') {
+                        console.log(color.dim('Nothing captured.'));
+                        break;
+                    }
+                    result = await sacred.capture(message, files, notes.join('\n\n') || undefined, { allowLargeFiles: choice === 'anyway', allowSecrets });
+                    if (result.findings && result.findings.length > 0) {
+                        console.log(color.yellow('○ ') + result.message);
+                        printFindings(result.findings);
+                        break;
+                    }
+                }
+                if (result.secrets && result.secrets.length > 0) {
+                    console.log(color.red('🔑 ') + result.message);
+                    printSecrets(result.secrets);
+                    if (!process.stdin.isTTY) {
+                        console.log(color.dim('Remove them and capture again, or use --allow-secrets if they are safe to keep.'));
+                        process.exit(1);
+                    }
+                    const answer = await ask('Capture anyway? (y/N) ');
+                    if (answer !== 'y' && answer !== 'yes') {
+                        console.log(color.dim('Nothing captured.'));
+                        break;
+                    }
+                    result = await sacred.capture(message, files, notes.join('\n\n') || undefined, { allowLargeFiles: true, allowSecrets: true });
+                }
+                console.log(result.success
+                    ? color.green('📸 ') + result.message
+                    : color.yellow('○ ') + result.message);
+                break;
+            }
+
+            case 'check': {
+                const result = await sacred.checkFiles(files.length > 0 ? files : commandArgs.slice(1));
+                if (json) {
+                    printJson(result);
+                    break;
+                }
+                if (!result.success) {
+                    console.log(color.red('✗ ') + result.message);
+                    break;
+                }
+                console.log((result.ok ? color.green('✓ ') : color.yellow('⚠ ')) + result.message);
+                printFindings(result.findings);
+                console.log(color.dim(`Limits: ${result.limits.maxFileSizeMB} MB for any file, ${result.limits.maxBinarySizeMB} MB for binaries.`));
+                break;
+            }
+
+            case 'secrets': {
+                const result = await sacred.scanSecrets(outgoing ? 'outgoing' : 'pending', files.length > 0 ? files : commandArgs.slice(1));
+                if (json) {
+                    printJson(result);
+                    break;
+                }
+                if (!result.success) {
+                    console.log(color.red('✗ ') + result.message);
+                    break;
+                }
+                console.log((result.ok ? color.green('✓ ') : color.red('🔑 ')) + result.message);
+                printSecrets(result.findings);
+                break;
+            }
+
+            case 'ignore':
+            case 'lfs': {
                 if (!param) {
-                    console.log(color.yellow('What did you capture? Please add a message.'));
-                    console.log(color.dim('Example: sacred capture "finished draft of chapter 3"'));
+                    console.log(color.yellow(command === 'ignore' ? 'Which file or folder should be ignored?' : 'Which file should go to Git LFS?'));
+                    console.log(color.dim(`Example: sacred ${command} ${command === 'ignore' ? 'node_modules' : 'video/demo.mp4'}`));
                     process.exit(1);
                 }
-                const result = await sacred.capture(param);
+                const result = command === 'ignore' ? await sacred.ignoreFile(param) : await sacred.moveToLfs(param);
                 if (json) {
                     printJson(result);
                     break;
                 }
                 console.log(result.success
-                    ? color.green('📸 ') + result.message
+                    ? color.green('✓ ') + result.message
+                    : color.red('✗ ') + result.message);
+                break;
+            }
+
+            case 'annotate': {
+                const [hash, ...noteWords] = commandArgs.slice(1);
+                const note = [noteWords.join(' '), ...notes].filter(Boolean).join('\n\n');
+                if (!hash || !note) {
+                    console.log(color.yellow('Which capture, and what note?'));
+                    console.log(color.dim('Example: sacred annotate a1b2c3d "Client asked for a shorter intro - trim chapter 1 next"'));
+                    process.exit(1);
+                }
+                const result = await sacred.annotate(hash, note);
+                if (json) {
+                    printJson(result);
+                    break;
+                }
+                console.log(result.success
+                    ? color.green('✎ ') + result.message
+                    : color.red('✗ ') + result.message);
+                break;
+            }
+
+            case 'uncapture': {
+                const result = reword !== undefined
+                    ? await sacred.reword(reword)
+                    : await sacred.uncapture();
+                if (json) {
+                    printJson(result);
+                    break;
+                }
+                console.log(result.success
+                    ? color.green('↩ ') + result.message
                     : color.yellow('○ ') + result.message);
+                if (result.success && reword === undefined) {
+                    console.log(color.dim('Only the message was wrong? Next time use: sacred uncapture --reword "better message"'));
+                }
                 break;
             }
 
             case 'latest': {
+                if (preview) {
+                    const result = await sacred.previewUpdate();
+                    if (json) {
+                        printJson(result);
+                        break;
+                    }
+                    printPreview(result);
+                    break;
+                }
                 if (!json) {
                     console.log(color.dim('Getting the latest from cloud...'));
                 }
@@ -363,17 +974,41 @@ async function main() {
                 if (!json) {
                     console.log(color.dim('Backing up to cloud...'));
                 }
-                const result = await sacred.backup();
+                let result = await sacred.backup({ allowSecrets });
                 if (json) {
                     printJson(result);
                     break;
                 }
+                if (result.secrets && result.secrets.length > 0) {
+                    console.log(color.red('🔑 ') + result.message);
+                    printSecrets(result.secrets);
+                    if (!process.stdin.isTTY) {
+                        console.log(color.dim('Use --allow-secrets to send anyway, only if they are safe to share.'));
+                        process.exit(1);
+                    }
+                    const answer = await ask('Send to cloud anyway? (y/N) ');
+                    if (answer !== 'y' && answer !== 'yes') {
+                        console.log(color.dim('Nothing sent.'));
+                        break;
+                    }
+                    result = await sacred.backup({ allowSecrets: true });
+                }
                 console.log(result.success
                     ? color.green('☁ ') + result.message
                     : color.yellow('○ ') + result.message);
                 break;
             }
 
+            case 'watch': {
+                const quietMinutes = idle === undefined ? 10 : Number(idle);
+                if (!(quietMinutes > 0)) {
+                    console.log(color.yellow('How many quiet minutes before capturing? Example: sacred watch --idle 10'));
+                    process.exit(1);
+                }
+                await watchAndCapture(sacred, cwd, quietMinutes, backupAfter, json);
+                break;
+            }
+
             case 'backup-all': {
                 if (!json) {
                     console.log(color.dim('Backing up all worktrees...\n'));
@@ -396,6 +1031,8 @@ async function main() {
                         const branchInfo = color.dim(`(${wt.branch})`);
                         console.log(`${icon} ${wt.name} ${branchInfo}`);
                         console.log(color.dim(`    ${wt.message}`));
+                        if (wt.findings) printFindings(wt.findings);
+                        if (wt.secrets) printSecrets(wt.secrets);
                     }
                     console.log();
                     console.log(result.success
@@ -413,6 +1050,20 @@ async function main() {
                 }
                 if (!result.hasChanges) {
                     console.log(color.dim('No changes since last capture.'));
+                } else if (wordsView) {
+                    if (result.words.length === 0) {
+                        console.log(color.dim('No words changed - your changes are outside .md, .txt and .html files.'));
+                        break;
+                    }
+                    console.log(color.bold('\nWords since your last capture:\n'));
+                    const width = Math.max(...result.words.map(w => w.path.length));
+                    result.words.forEach(w => {
+                        console.log('  ' + w.path.padEnd(width) + '  ' +
+                            color.green(`+${w.wordsAdded.toLocaleString('en-US')}`.padStart(8)) + ' ' +
+                            color.red(`−${w.wordsRemoved.toLocaleString('en-US')}`.padStart(8)));
+                    });
+                    console.log();
+                    console.log(color.dim(`Total: ${result.wordsAdded.toLocaleString('en-US')} words written, ${result.wordsRemoved.toLocaleString('en-US')} cut`));
                 } else {
                     console.log(color.bold('\nChanges:\n'));
                     if (result.untracked.length > 0) {
@@ -425,6 +1076,11 @@ async function main() {
                         result.unstaged.forEach(f => console.log(color.yellow('  ~ ') + f));
                         console.log();
                     }
+                    if (result.deleted.length > 0) {
+                        console.log(color.red('Deleted:'));
+                        result.deleted.forEach(f => console.log(color.red('  − ') + f));
+                        console.log();
+                    }
                     if (result.staged.length > 0) {
                         console.log(color.green('Ready to capture:'));
                         result.staged.forEach(f => console.log(color.green('  ✓ ') + f));
@@ -436,13 +1092,58 @@ async function main() {
             }
 
             case 'timeline': {
-                const entries = await sacred.timeline(30);
+                const pageSize = 30;
+                if (graphView) {
+                    // The graph always shows the latest captures across every lane
+                    const unsupported = [
+                        page && '--page', since && '--since', until && '--until', author && '--author',
+                        files.length > 0 && '--file', experimentName && '--experiment'
+                    ].filter(Boolean);
+                    if (unsupported.length > 0) {
+                        console.log(color.yellow(`--graph can't be combined with ${unsupported.join(', ')}. Drop --graph to filter or page through the timeline.`));
+                        process.exit(1);
+                    }
+                    const graph = await sacred.timelineGraph(pageSize);
+                    if (json) {
+                        printJson(graph);
+                        break;
+                    }
+                    if (!graph.success) {
+                        console.log(color.red('✗ ') + graph.message);
+                        break;
+                    }
+                    if (graph.nodes.length === 0) {
+                        console.log(color.dim('No captures yet. Create your first with: sacred capture "your message"'));
+                        break;
+                    }
+                    const repoName = cwd.split('/').pop() || 'Timeline';
+                    console.log();
+                    console.log(color.bold(repoName) + color.dim(`  ${graph.message}`));
+                    console.log(color.dim('━'.repeat(Math.min(repoName.length + 10, 40))));
+                    console.log();
+                    renderGraph(graph).forEach(line => console.log(line));
+                    console.log();
+                    break;
+                }
+                const pageNumber = Math.max(parseInt(page || '1', 10) || 1, 1);
+                const filters = { since, until, author, path: files[0], experiment: experimentName };
+                const filtered = Object.values(filters).some(Boolean);
+                // One extra tells us whether there is an older page
+                const fetched = await sacred.timeline({ ...filters, limit: pageSize + 1, offset: (pageNumber - 1) * pageSize });
+                const entries = fetched.slice(0, pageSize);
+                const hasMore = fetched.length > pageSize;
                 if (json) {
                     printJson(entries);
                     break;
                 }
                 if (entries.length === 0) {
-                    console.log(color.dim('No captures yet. Create your first with: sacred capture "your message"'));
+                    if (pageNumber > 1) {
+                        console.log(color.dim(`Nothing on page ${pageNumber}. That's the beginning of the timeline.`));
+                    } else if (filtered) {
+                        console.log(color.dim('No captures match. Try a wider date range, or drop a filter.'));
+                    } else {
+                        console.log(color.dim('No captures yet. Create your first with: sacred capture "your message"'));
+                    }
                 } else {
                     // Get repo name from current directory
                     const repoName = cwd.split('/').pop() || 'Timeline';
@@ -481,7 +1182,8 @@ async function main() {
                         // Entries for this day
                         dayEntries.forEach((entry, i) => {
                             const isFirst = groupIndex === 0 && i === 0;
-                            const dot = isFirst ? color.green('●') : recencyColor('○');
+                            const isMilestone = !!entry.milestones?.length;
+                            const dot = isMilestone ? color.yellow('◆') : isFirst ? color.green('●') : recencyColor('○');
                             const icon = getSmartIcon(entry.message);
                             const cleanMsg = cleanMessage(entry.message);
                             const displayMsg = cleanMsg.length > 42
@@ -497,15 +1199,138 @@ async function main() {
                                 timeStr = '  ' + color.dim(entry.relativeDate);
                             }
 
-                            console.log(`  ${dot} ${icon} ${msgColor(displayMsg)}${timeStr}`);
+                            const milestoneStr = isMilestone
+                                ? '  ' + color.yellow(`🏁 ${entry.milestones!.join(', ')}`)
+                                : '';
+
+                            const noteStr = entry.note ? ' ' + color.cyan('✎') : '';
+
+                            console.log(`  ${dot} ${icon} ${msgColor(displayMsg)}${noteStr}${milestoneStr}${timeStr}`);
+                            if (entry.note) {
+                                const firstLine = entry.note.split('\n')[0];
+                                console.log(color.dim(`      ${firstLine.length > 60 ? firstLine.substring(0, 57) + '...' : firstLine}`));
+                            }
                         });
                         console.log();
                     });
+
+                    if (hasMore) {
+                        const again = args
+                            .filter((arg, i) => arg !== '--page' && args[i - 1] !== '--page')
+                            .map(arg => arg.includes(' ') ? `"${arg}"` : arg);
+                        console.log(color.dim(`Older captures: sacred ${again.join(' ')} --page ${pageNumber + 1}`));
+                    }
                 }
                 break;
             }
 
+            case 'search': {
+                if (!param) {
+                    console.log(color.yellow('What should I look for?'));
+                    console.log(color.dim('Example: sacred search "pricing section"'));
+                    process.exit(1);
+                }
+                const result = await sacred.search(param, {
+                    inMessages: !contentOnly,
+                    inContent: !messagesOnly,
+                    path: files[0],
+                    since,
+                    until,
+                    regex
+                });
+                if (json) {
+                    printJson(result);
+                    break;
+                }
+                if (!result.success) {
+                    console.log(color.red('✗ ') + result.message);
+                    break;
+                }
+                if (result.matches.length === 0) {
+                    console.log(color.dim(result.message));
+                    break;
+                }
+                console.log(color.bold(`\n🔍 ${result.message}\n`));
+                result.matches.forEach(match => {
+                    const where = match.matchedIn.includes('content') && match.file
+                        ? `${match.change === 'removed' ? 'removed from' : 'added to'} ${match.file}`
+                        : 'in the message';
+                    console.log(`  ${getSmartIcon(match.message)} ${cleanMessage(match.message)}` +
+                        color.dim(`  ${match.shortHash} · ${match.relativeDate}`));
+                    if (match.snippet) {
+                        console.log(color.dim(`      ${where}: `) + color.cyan(match.snippet));
+                    }
+                });
+                console.log();
+                console.log(color.dim('Bring a file back with: sacred restore <hash> --file <path>'));
+                break;
+            }
+
             case 'narrate': {
+                if (experimentName) {
+                    const story = await sacred.narrateExperiment(experimentName);
+                    if (json) {
+                        printJson(story);
+                        break;
+                    }
+                    if (!story.success) {
+                        console.log(color.yellow('○ ') + story.summary);
+                        process.exit(1);
+                    }
+
+                    const outcome = story.state === 'kept' ? color.green('kept')
+                        : story.state === 'discarded' ? color.yellow('discarded')
+                        : color.cyan(story.state);
+                    console.log(color.bold(`🧪 The story of "${story.humanName}"`) + color.dim(' — ') + outcome + '\n');
+                    console.log(story.summary);
+                    console.log();
+
+                    if (story.files.length > 0) {
+                        console.log(color.bold('Files it touched:'));
+                        story.files.slice(0, 10).forEach(f => {
+                            console.log(color.dim('  ') + f.path + color.dim(` (${f.captures} capture${f.captures !== 1 ? 's' : ''}, +${f.linesAdded} −${f.linesRemoved})`));
+                        });
+                        if (story.files.length > 10) {
+                            console.log(color.dim(`  ...and ${story.files.length - 10} more`));
+                        }
+                        console.log();
+                    }
+                    break;
+                }
+
+                if (files.length > 0) {
+                    const story = await sacred.narrateFile(files[0]);
+                    if (json) {
+                        printJson(story);
+                        break;
+                    }
+                    if (!story.success) {
+                        console.log(color.red('✗ ') + story.summary);
+                        process.exit(1);
+                    }
+
+                    console.log(color.bold(`📖 The story of ${story.path}:\n`));
+                    console.log(story.summary);
+                    console.log();
+
+                    if (story.biggestRewrites.length > 0) {
+                        console.log(color.bold('Biggest rewrites:'));
+                        story.biggestRewrites.forEach((c, i) => {
+                            console.log(color.dim(`  ${i + 1}.`) + ` ${c.message} ` + color.dim(`(+${c.linesAdded} −${c.linesRemoved}, ${c.relativeDate})`));
+                        });
+                        console.log();
+                    }
+
+                    if (story.changeDays.length > 1) {
+                        console.log(color.bold('Days it changed:'));
+                        story.changeDays.forEach(d => {
+                            console.log(color.dim('  ') + d.day + color.dim(` (${d.captures} capture${d.captures !== 1 ? 's' : ''})`));
+                        });
+                        console.log();
+                    }
+                    break;
+                }
+
                 const days = param ? parseInt(param, 10) : 7;
                 if (isNaN(days) || days < 1) {
                     console.log(color.yellow('Please provide a valid number of days.'));
@@ -533,6 +1358,23 @@ async function main() {
                     });
                     console.log();
                 }
+
+                if (result.stats.words.files.length > 0) {
+                    console.log(color.bold('Where the words went:'));
+                    result.stats.words.files.forEach(w => {
+                        console.log(color.dim('  ') + w.path + color.dim(` (+${w.wordsAdded.toLocaleString('en-US')} −${w.wordsRemoved.toLocaleString('en-US')} words)`));
+                    });
+                    console.log();
+                }
+
+                const experiments = result.stats.experiments;
+                if (experiments.started + experiments.kept + experiments.discarded > 0) {
+                    console.log(color.bold('Experiments:'));
+                    console.log(color.dim('  started   ') + `${experiments.started}` + (experiments.startedNames.length ? color.dim(`  ${experiments.startedNames.join(', ')}`) : ''));
+                    console.log(color.green('  kept      ') + `${experiments.kept}` + (experiments.keptNames.length ? color.dim(`  ${experiments.keptNames.join(', ')}`) : ''));
+                    console.log(color.yellow('  discarded ') + `${experiments.discarded}` + (experiments.discardedNames.length ? color.dim(`  ${experiments.discardedNames.join(', ')}`) : ''));
+                    console.log();
+                }
                 break;
             }
 
@@ -553,7 +1395,85 @@ async function main() {
                 break;
             }
 
+            case 'experiments': {
+                const experiments = await sacred.listExperiments();
+                if (json) {
+                    printJson(experiments);
+                    break;
+                }
+                if (experiments.length === 0) {
+                    console.log(color.dim('No experiments yet. Start one with: sacred experiment "name"'));
+                    break;
+                }
+                console.log(color.bold('\nExperiments:\n'));
+                for (const e of experiments) {
+                    const marker = e.isCurrent ? color.green('●') : color.dim('○');
+                    const started = e.startedAt ? e.startedAt.toLocaleDateString('en-US', { month: 'short', day: 'numeric' }) : 'unknown';
+                    console.log(`  ${marker} 🧪 ${color.bold(e.humanName)}` + (e.humanName !== e.name ? color.dim(` (${e.name})`) : ''));
+                    console.log(color.dim(`      started ${started}` + (e.startedFromMessage ? ` from "${e.startedFromMessage}"` : '')));
+                    console.log(color.dim(`      ${e.captures} capture${e.captures !== 1 ? 's' : ''} · ${e.aheadOfMain} ahead of main · ${e.behindMain} behind main`));
+                }
+                console.log();
+                break;
+            }
+
+            case 'switch': {
+                if (!param) {
+                    console.log(color.yellow('Which experiment?'));
+                    console.log(color.dim('Run "sacred experiments" to see them all.'));
+                    process.exit(1);
+                }
+                const result = await sacred.switchExperiment(param);
+                if (json) {
+                    printJson(result);
+                    break;
+                }
+                console.log(result.success
+                    ? color.green('🔀 ') + result.message
+                    : color.yellow('○ ') + result.message);
+                break;
+            }
+
+            case 'compare': {
+                const result = await sacred.compareExperiment(param || undefined);
+                if (json) {
+                    printJson(result);
+                    break;
+                }
+                if (!result.success) {
+                    console.log(color.yellow('○ ') + result.message);
+                    break;
+                }
+                console.log(color.bold(`\n🧪 ${result.humanName} compared to main:\n`));
+                console.log(result.message);
+                console.log();
+                const describe = (f: { linesAdded: number; linesRemoved: number; wordsAdded: number | null; wordsRemoved: number | null; binary: boolean }) => {
+                    if (f.binary) return color.dim('(binary)');
+                    if (f.wordsAdded !== null) return color.dim(`(+${f.wordsAdded} / -${f.wordsRemoved} words)`);
+                    return color.dim(`(+${f.linesAdded} / -${f.linesRemoved} lines)`);
+                };
+                for (const f of result.files) {
+                    if (f.status === 'added') console.log(color.blue('  + ') + f.path + ' ' + describe(f));
+                    if (f.status === 'removed') console.log(color.red('  - ') + f.path + ' ' + describe(f));
+                    if (f.status === 'modified') console.log(color.yellow('  ~ ') + f.path + ' ' + describe(f));
+                    if (f.status === 'renamed') console.log(color.cyan('  → ') + `${f.previousPath} → ${f.path} ` + describe(f));
+                }
+                if (result.files.length > 0) {
+                    console.log(color.dim('\nHappy with it? Run "sacred keep" from the experiment.'));
+                }
+                break;
+            }
+
             case 'keep': {
+                if (preview) {
+                    const result = await sacred.previewKeep();
+                    if (json) {
+                        printJson(result);
+                        break;
+                    }
+                    printPreview(result);
+                    break;
+                }
                 const result = await sacred.keep();
                 if (json) {
                     printJson(result);
@@ -578,12 +1498,42 @@ async function main() {
             }
 
             case 'restore': {
+                if (milestoneName) {
+                    const result = await sacred.restoreMilestone(milestoneName, { bringBack });
+                    if (json) {
+                        printJson(result);
+                        break;
+                    }
+                    console.log(result.success
+                        ? color.green('⏪ ') + result.message
+                        : color.red('✗ ') + result.message);
+                    if (result.success && !bringBack) {
+                        console.log(color.dim('You\'re visiting this moment. Run "sacred return" to get back to your timeline.'));
+                    }
+                    break;
+                }
                 if (!param) {
                     console.log(color.yellow('Which moment? Provide a hash from the timeline.'));
                     console.log(color.dim('Run "sacred timeline" to see available moments.'));
                     process.exit(1);
                 }
-                const result = await sacred.restore(param);
+                if (files.length > 0) {
+                    const results = [];
+                    for (const file of files) {
+                        results.push(await sacred.restoreFile(param, file));
+                    }
+                    if (json) {
+                        printJson(results.length === 1 ? results[0] : results);
+                        break;
+                    }
+                    results.forEach(result => console.log(result.success
+                        ? color.green('⏪ ') + result.message
+                        : color.red('✗ ') + result.message));
+                    break;
+                }
+                const result = bringBack
+                    ? await sacred.bringBack(param)
+                    : await sacred.restore(param);
                 if (json) {
                     printJson(result);
                     break;
@@ -591,6 +1541,138 @@ async function main() {
                 console.log(result.success
                     ? color.green('⏪ ') + result.message
                     : color.red('✗ ') + result.message);
+                if (result.success && !bringBack) {
+                    console.log(color.dim('You\'re visiting this moment. Run "sacred return" to get back to your timeline.'));
+                }
+                break;
+            }
+
+            case 'milestone': {
+                if (!param) {
+                    console.log(color.yellow('Name this milestone.'));
+                    console.log(color.dim('Example: sacred milestone "Sent draft to client"'));
+                    process.exit(1);
+                }
+                const result = await sacred.markMilestone(param, at);
+                if (json) {
+                    printJson(result);
+                    break;
+                }
+                console.log(result.success
+                    ? color.yellow('🏁 ') + result.message
+                    : color.red('✗ ') + result.message);
+                break;
+            }
+
+            case 'milestones': {
+                const milestones = await sacred.listMilestones();
+                if (json) {
+                    printJson(milestones);
+                    break;
+                }
+                if (milestones.length === 0) {
+                    console.log(color.dim('No milestones yet. Mark one with: sacred milestone "Sent draft to client"'));
+                    break;
+                }
+                console.log(color.bold('\n🏁 Milestones\n'));
+                milestones.forEach(m => {
+                    console.log(color.yellow('  ◆ ') + color.bold(m.name) + color.dim(`  ${m.shortHash} · ${m.relativeDate}`));
+                    console.log(color.dim(`    "${m.captureMessage}"`));
+                });
+                console.log();
+                console.log(color.dim('Go back to one with: sacred restore --milestone "name"'));
+                break;
+            }
+
+            case 'return': {
+                const result = await sacred.returnToTimeline();
+                if (json) {
+                    printJson(result);
+                    break;
+                }
+                console.log(result.success
+                    ? color.green('↪ ') + result.message
+                    : color.yellow('○ ') + result.message);
+                break;
+            }
+
+            case 'rescue': {
+                if (!param) {
+                    const snapshots = await sacred.listSafetySnapshots();
+                    if (json) {
+                        printJson(snapshots);
+                        break;
+                    }
+                    if (snapshots.length === 0) {
+                        console.log(color.dim('No safety snapshots yet. One is taken automatically before every keep, discard and restore.'));
+                        break;
+                    }
+                    console.log(color.bold('\nSafety snapshots:\n'));
+                    snapshots.forEach((snapshot, i) => {
+                        const unsaved = snapshot.hasUnsavedWork ? color.yellow('  + unsaved work') : '';
+                        console.log(color.dim(`  ${i + 1}.`) + ` ${snapshot.description} ` + color.dim(`(${snapshot.relativeDate})`) + unsaved);
+                    });
+                    console.log(color.dim('\nBring one back with: sacred rescue <number>'));
+                    break;
+                }
+                const result = await sacred.rescue(param);
+                if (json) {
+                    printJson(result);
+                    break;
+                }
+                console.log(result.success
+                    ? color.green('🛟 ') + result.message
+                    : color.red('✗ ') + result.message);
+                break;
+            }
+
+            case 'untangle': {
+                const [action, ...rest] = commandArgs.slice(1);
+                const target = rest.join(' ');
+                const choice = action?.toLowerCase();
+
+                if (!choice) {
+                    if (json || !process.stdin.isTTY) {
+                        const state = await sacred.listTangles();
+                        if (json) {
+                            printJson(state);
+                            break;
+                        }
+                        if (state.files.length === 0) {
+                            console.log(color.green('✓ ') + 'Nothing is tangled. Your timeline is whole.');
+                            break;
+                        }
+                        state.files.forEach(f => console.log(color.yellow('⚠ ') + f.path));
+                        console.log(color.dim('Settle each with: sacred untangle mine|theirs|both|resolved <file>'));
+                        break;
+                    }
+                    await runUntangle(sacred);
+                    break;
+                }
+
+                if (choice === 'abandon') {
+                    const result = await sacred.abandonUntangle();
+                    if (json) {
+                        printJson(result);
+                        break;
+                    }
+                    console.log((result.success ? color.green('↩ ') : color.yellow('○ ')) + result.message);
+                    break;
+                }
+
+                if (!['mine', 'theirs', 'both', 'resolved'].includes(choice) || !target) {
+                    console.log(color.yellow('Usage: sacred untangle mine|theirs|both|resolved <file>'));
+                    process.exit(1);
+                }
+
+                const result = choice === 'resolved'
+                    ? await sacred.markUntangled(target)
+                    : await sacred.untangleFile(target, choice as UntangleChoice);
+                if (json) {
+                    printJson(result);
+                    break;
+                }
+                console.log((result.success ? color.green('✓ ') : color.red('✗ ')) + result.message);
                 break;
             }
 
@@ -612,18 +1694,50 @@ async function main() {
 
             case 'connect': {
                 if (!param) {
-                    console.log(color.yellow('Where to? Provide a GitHub URL.'));
+                    console.log(color.yellow('Where to? Provide the address of your cloud repository.'));
                     console.log(color.dim('Example: sacred connect https://github.com/username/repo.git'));
+                    console.log(color.dim('     or: sacred connect git@gitlab.com:username/repo.git'));
                     process.exit(1);
                 }
-                const result = await sacred.connect(param);
+                if (!json && sacred.describeHost(param)) {
+                    console.log(color.dim('Checking the cloud answers...'));
+                }
+                let result = await sacred.connect(param);
                 if (json) {
                     printJson(result);
                     break;
                 }
+
+                // A private HTTPS repository: ask for a login right here
+                if (result.problem && ['auth', 'not-found'].includes(result.problem) && result.host &&
+                    ['https', 'http'].includes(result.host.protocol) && process.stdin.isTTY) {
+                    console.log(color.yellow('○ ') + result.message);
+                    const username = await ask(`${result.host.name} username: `, true);
+                    const token = username ? await askSecret('Token (hidden): ') : '';
+                    if (!token) {
+                        console.log(color.dim('Not connected.'));
+                        process.exit(1);
+                    }
+                    result = await sacred.connect(param, { username, token });
+                }
                 console.log(result.success
                     ? color.green('🔗 ') + result.message
                     : color.red('✗ ') + result.message);
+                if (!result.success) {
+                    process.exit(1);
+                }
+                break;
+            }
+
+            case 'secure': {
+                const result = await sacred.secureCredentials();
+                if (json) {
+                    printJson(result);
+                    break;
+                }
+                console.log(result.success
+                    ? color.green('🔒 ') + result.message
+                    : color.red('✗ ') + result.message);
                 break;
             }
 
@@ -637,7 +1751,9 @@ async function main() {
 
                 console.log(color.bold('\nSacred Timeline Status:\n'));
 
-                if (status.currentExperiment) {
+                if (status.isDetached) {
+                    console.log(color.yellow('⏸ Visiting earlier capture: ') + status.detachedAt + color.dim('  (run "sacred return" to get back)'));
+                } else if (status.currentExperiment) {
                     console.log(color.yellow('🧪 Experiment: ') + status.currentExperiment);
                 } else {
                     console.log(color.green('● ') + 'On main timeline');
@@ -713,12 +1829,16 @@ sacred_auto_status
 
                 const parts: string[] = [];
 
+                if (status.isDetached) {
+                    parts.push(color.yellow(`⏸ visiting ${status.detachedAt}`));
+                }
+
                 if (status.currentExperiment) {
                     parts.push(color.yellow(`🧪 ${status.currentExperiment}`));
                 }
 
                 if (changes.hasChanges) {
-                    const total = changes.staged.length + changes.unstaged.length + changes.untracked.length;
+                    const total = changes.staged.length + changes.unstaged.length + changes.untracked.length + changes.deleted.length;
                     parts.push(color.yellow(`${total} changes`));
                 }
 
@@ -0,0 +1,149 @@
+/**
+ * Sacred Timeline - Credential Store
+ *
+ * An encrypted home for cloud tokens on computers without a system
+ * credential manager. Git reaches it through "sacred credential", which
+ * speaks git's credential-helper protocol (get / store / erase).
+ */
+
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+export interface Credential {
+    protocol?: string;
+    host?: string;
+    username?: string;
+    password?: string;
+}
+
+interface StoredCredential {
+    protocol: string;
+    host: string;
+    username: string;
+    iv: string;
+    tag: string;
+    secret: string;
+}
+
+// Kept in the home folder, never in a project, so tokens can't be captured or backed up
+const STORE_DIR = path.join(os.homedir(), '.sacred');
+const STORE_FILE = path.join(STORE_DIR, 'credentials.json');
+const KEY_FILE = path.join(STORE_DIR, 'credentials.key');
+
+/**
+ * The credential.helper value that points git at this store
+ * Runs the CLI next to this file with the same node, so it works from the
+ * VS Code extension too (where node is Electron running as node).
+ */
+export function credentialHelperCommand(): string {
+    const cli = path.join(__dirname, 'cli.js').replace(/\\/g, '/');
+    const node = process.execPath.replace(/\\/g, '/');
+    const runAsNode = process.versions.electron ? 'ELECTRON_RUN_AS_NODE=1 ' : '';
+    return `!${runAsNode}"${node}" "${cli}" credential`;
+}
+
+// The CLI path inside a helper command, to spot one left behind by an older install
+export function credentialHelperScript(helper: string): string | null {
+    const match = /"([^"]+cli\.js)" credential$/.exec(helper);
+    return match ? match[1] : null;
+}
+
+// git sends "key=value" lines, ending with a blank line
+export function parseCredential(input: string): Credential {
+    const credential: Credential = {};
+    for (const line of input.split(/\r?\n/)) {
+        const at = line.indexOf('=');
+        if (at === -1) continue;
+        const key = line.slice(0, at);
+        if (key === 'protocol' || key === 'host' || key === 'username' || key === 'password') {
+            credential[key] = line.slice(at + 1);
+        }
+    }
+    return credential;
+}
+
+export function formatCredential(credential: Credential): string {
+    return (['protocol', 'host', 'username', 'password'] as const)
+        .filter(key => credential[key] !== undefined)
+        .map(key => `${key}=${credential[key]}\n`)
+        .join('');
+}
+
+export function getCredential(request: Credential): Credential | null {
+    const found = readStore().find(entry => matches(entry, request));
+    if (!found) return null;
+
+    try {
+        const decipher = crypto.createDecipheriv('aes-256-gcm', readKey(), Buffer.from(found.iv, 'base64'));
+        decipher.setAuthTag(Buffer.from(found.tag, 'base64'));
+        const password = Buffer.concat([decipher.update(Buffer.from(found.secret, 'base64')), decipher.final()]).toString('utf8');
+        return { protocol: found.protocol, host: found.host, username: found.username, password };
+    } catch {
+        // Key replaced or file damaged: let git ask again
+        return null;
+    }
+}
+
+export function storeCredential(credential: Credential): void {
+    if (!credential.protocol || !credential.host || !credential.password) return;
+
+    const iv = crypto.randomBytes(12);
+    const cipher = crypto.createCipheriv('aes-256-gcm', readKey(), iv);
+    const secret = Buffer.concat([cipher.update(credential.password, 'utf8'), cipher.final()]);
+    const entry: StoredCredential = {
+        protocol: credential.protocol,
+        host: credential.host,
+        username: credential.username || '',
+        iv: iv.toString('base64'),
+        tag: cipher.getAuthTag().toString('base64'),
+        secret: secret.toString('base64')
+    };
+
+    const others = readStore().filter(stored =>
+        !(stored.protocol === entry.protocol && stored.host === entry.host && stored.username === entry.username));
+    writeStore([...others, entry]);
+}
+
+export function eraseCredential(request: Credential): void {
+    const entries = readStore();
+    const kept = entries.filter(entry => !matches(entry, request));
+    if (kept.length !== entries.length) {
+        writeStore(kept);
+    }
+}
+
+function matches(entry: StoredCredential, request: Credential): boolean {
+    return entry.protocol === request.protocol &&
+        entry.host === request.host &&
+        (!request.username || entry.username === request.username);
+}
+
+function readStore(): StoredCredential[] {
+    try {
+        const parsed = JSON.parse(fs.readFileSync(STORE_FILE, 'utf8'));
+        return Array.isArray(parsed) ? parsed : [];
+    } catch {
+        return [];
+    }
+}
+
+function writeStore(entries: StoredCredential[]): void {
+    fs.mkdirSync(STORE_DIR, { recursive: true, mode: 0o700 });
+    fs.writeFileSync(STORE_FILE, JSON.stringify(entries, null, 2) + '\n', { mode: 0o600 });
+}
+
+// One random key per computer, readable only by this user
+function readKey(): Buffer {
+    try {
+        const key = fs.readFileSync(KEY_FILE);
+        if (key.length === 32) return key;
+    } catch {
+        // First use: make one below
+    }
+    fs.mkdirSync(STORE_DIR, { recursive: true, mode: 0o700 });
+    const key = crypto.randomBytes(32);
+    fs.writeFileSync(KEY_FILE, key, { mode: 0o600 });
+    return key;
+}
@@ -8,11 +8,15 @@
  */
 
 import * as vscode from 'vscode';
-import { SacredTimeline } from './git-wrapper';
+import { FileFinding, SacredTimeline, SearchMatch, SecretFinding, TimelineEntry } from './git-wrapper';
 import { SidebarProvider } from './sidebar-provider';
+import { UntanglePanel } from './untangle-panel';
 
 let sacredTimeline: SacredTimeline | undefined;
 let statusBarItem: vscode.StatusBarItem;
+let autoCaptureTimer: ReturnType<typeof setTimeout> | undefined;
+
+const CAPTURE_SCHEME = 'sacred-timeline';
 
 export function activate(context: vscode.ExtensionContext) {
     console.log('Sacred Timeline is now active');
@@ -24,6 +28,17 @@ export function activate(context: vscode.ExtensionContext) {
         sacredTimeline = new SacredTimeline(workspaceRoot);
     }
 
+    // Serve file contents from earlier captures for diff views
+    context.subscriptions.push(
+        vscode.workspace.registerTextDocumentContentProvider(CAPTURE_SCHEME, {
+            provideTextDocumentContent: (uri) => {
+                const ref = new URLSearchParams(uri.query).get('ref');
+                if (!sacredTimeline || !ref) return '';
+                return sacredTimeline.showFileAt(ref, uri.path.replace(/^\//, ''));
+            }
+        })
+    );
+
     // Register sidebar provider
     const sidebarProvider = new SidebarProvider(context.extensionUri, sacredTimeline);
     context.subscriptions.push(
@@ -39,29 +54,90 @@ export function activate(context: vscode.ExtensionContext) {
     // Register commands
     const commands = [
         vscode.commands.registerCommand('sacredTimeline.capture', captureCommand),
+        vscode.commands.registerCommand('sacredTimeline.uncapture', uncaptureCommand),
         vscode.commands.registerCommand('sacredTimeline.narrate', narrateCommand),
+        vscode.commands.registerCommand('sacredTimeline.narrateFile', narrateFileCommand),
         vscode.commands.registerCommand('sacredTimeline.latest', updateCommand),
         vscode.commands.registerCommand('sacredTimeline.backup', backupCommand),
         vscode.commands.registerCommand('sacredTimeline.backupAll', backupAllCommand),
         vscode.commands.registerCommand('sacredTimeline.changes', changesCommand),
         vscode.commands.registerCommand('sacredTimeline.timeline', timelineCommand),
+        vscode.commands.registerCommand('sacredTimeline.search', searchCommand),
         vscode.commands.registerCommand('sacredTimeline.experiment', experimentCommand),
+        vscode.commands.registerCommand('sacredTimeline.switchExperiment', switchExperimentCommand),
+        vscode.commands.registerCommand('sacredTimeline.compare', compareCommand),
         vscode.commands.registerCommand('sacredTimeline.keep', keepCommand),
         vscode.commands.registerCommand('sacredTimeline.discard', discardCommand),
         vscode.commands.registerCommand('sacredTimeline.restore', restoreCommand),
+        vscode.commands.registerCommand('sacredTimeline.return', returnCommand),
+        vscode.commands.registerCommand('sacredTimeline.milestone', milestoneCommand),
+        vscode.commands.registerCommand('sacredTimeline.milestones', milestonesCommand),
+        vscode.commands.registerCommand('sacredTimeline.rescue', rescueCommand),
         vscode.commands.registerCommand('sacredTimeline.start', startCommand),
         vscode.commands.registerCommand('sacredTimeline.connect', connectCommand),
+        vscode.commands.registerCommand('sacredTimeline.secureCredentials', secureCredentialsCommand),
         vscode.commands.registerCommand('sacredTimeline.untangle', untangleCommand),
     ];
 
     context.subscriptions.push(...commands);
 
-    // Watch for file changes to update status
+    // Watch for file changes to update status (and, if turned on, to auto-capture)
     const watcher = vscode.workspace.createFileSystemWatcher('**/*');
-    watcher.onDidChange(() => updateStatusBar());
-    watcher.onDidCreate(() => updateStatusBar());
-    watcher.onDidDelete(() => updateStatusBar());
+    const onFileEvent = (uri: vscode.Uri) => {
+        updateStatusBar();
+        scheduleAutoCapture(uri);
+    };
+    watcher.onDidChange(onFileEvent);
+    watcher.onDidCreate(onFileEvent);
+    watcher.onDidDelete(onFileEvent);
     context.subscriptions.push(watcher);
+
+    context.subscriptions.push(
+        vscode.workspace.onDidChangeConfiguration(event => {
+            if (event.affectsConfiguration('sacredTimeline.autoCapture')) {
+                scheduleAutoCapture();
+            }
+        }),
+        { dispose: () => autoCaptureTimer && clearTimeout(autoCaptureTimer) }
+    );
+    scheduleAutoCapture();
+
+    // Projects connected by older versions keep the token in .git/config; offer to move it
+    sacredTimeline?.checkCredentials().then(async check => {
+        if (check.ok) return;
+        const choice = await vscode.window.showWarningMessage(`Sacred Timeline: ${check.detail}.`, 'Secure it now');
+        if (choice === 'Secure it now') {
+            secureCredentialsCommand();
+        }
+    });
+}
+
+// AUTO-CAPTURE: Capture by itself once you've stopped working for a while
+function scheduleAutoCapture(uri?: vscode.Uri) {
+    // Git's own bookkeeping (including our captures) isn't your work
+    if (uri && uri.path.split('/').includes('.git')) return;
+
+    if (autoCaptureTimer) {
+        clearTimeout(autoCaptureTimer);
+        autoCaptureTimer = undefined;
+    }
+
+    const config = vscode.workspace.getConfiguration('sacredTimeline.autoCapture');
+    if (!sacredTimeline || !config.get<boolean>('enabled', false)) return;
+
+    const idleMinutes = Math.max(config.get<number>('idleMinutes', 10), 1);
+    autoCaptureTimer = setTimeout(async () => {
+        autoCaptureTimer = undefined;
+        if (!sacredTimeline) return;
+
+        const result = await sacredTimeline.autoCapture({ backup: config.get<boolean>('backup', false) });
+        if (result.captured) {
+            vscode.window.setStatusBarMessage(`$(check) ${result.message}`, 8000);
+        } else if (!result.success) {
+            vscode.window.setStatusBarMessage(`$(info) ${result.message}`, 8000);
+        }
+        updateStatusBar();
+    }, idleMinutes * 60000);
 }
 
 // CAPTURE: Save this moment
@@ -78,8 +154,37 @@ async function captureCommand() {
         return;
     }
 
-    // Ask for capture message
+    // Let the user untick anything they want to leave out of this capture
+    const pending = [...changes.staged, ...changes.unstaged, ...changes.untracked, ...changes.deleted]
+        .filter((file, index, all) => all.indexOf(file) === index);
+    let paths: string[] = [];
+
+    if (pending.length > 1) {
+        const picked = await vscode.window.showQuickPick(
+            pending.map(file => ({
+                label: file,
+                description: changes.untracked.includes(file) ? 'new' : changes.deleted.includes(file) ? 'deleted' : 'modified',
+                picked: true
+            })),
+            {
+                title: 'Capture: choose what to include',
+                placeHolder: 'Untick files to leave them out of this capture',
+                canPickMany: true
+            }
+        );
+
+        if (!picked || picked.length === 0) return;
+
+        // Everything ticked means a normal full capture
+        if (picked.length < pending.length) {
+            paths = picked.map(item => item.label);
+        }
+    }
+
+    // Ask for capture message, starting from one built from the changes themselves
+    const suggested = await sacredTimeline.suggestMessage(paths);
     const message = await vscode.window.showInputBox({
+        value: suggested.suggestion,
         prompt: 'What did you learn or accomplish?',
         placeHolder: 'e.g., "Finished draft of chapter 3" or "Fixed the navigation issue"',
         validateInput: (text) => {
@@ -92,7 +197,37 @@ async function captureCommand() {
 
     if (!message) return;
 
-    const result = await sacredTimeline.capture(message);
+    // Escape skips the note, not the capture
+    const note = await vscode.window.showInputBox({
+        prompt: 'Add a note (optional)',
+        placeHolder: 'Why you did it, what you tried, what to remember'
+    });
+
+    let result = await sacredTimeline.capture(message, paths, note || undefined);
+
+    // Held back by the large-file check: settle each file, then try again
+    if (result.findings && result.findings.length > 0) {
+        const choice = await settleLargeFiles(result.findings);
+        if (!choice) {
+            updateStatusBar();
+            return;
+        }
+        result = await sacredTimeline.capture(message, paths, note || undefined, { allowLargeFiles: choice === 'anyway' });
+    }
+
+    // Looks like a key or password: only capture it if the user says it's safe
+    if (result.secrets && result.secrets.length > 0) {
+        const confirm = await vscode.window.showWarningMessage(
+            result.message,
+            { modal: true, detail: describeSecrets(result.secrets) },
+            'Capture anyway'
+        );
+        if (confirm !== 'Capture anyway') {
+            updateStatusBar();
+            return;
+        }
+        result = await sacredTimeline.capture(message, paths, note || undefined, { allowLargeFiles: true, allowSecrets: true });
+    }
 
     if (result.success) {
         vscode.window.showInformationMessage(`$(check) ${result.message}`);
@@ -103,6 +238,95 @@ async function captureCommand() {
     updateStatusBar();
 }
 
+function describeSecrets(secrets: SecretFinding[]): string {
+    return secrets
+        .map(s => `${s.line > 0 ? `${s.path}:${s.line}` : s.path}${s.hash ? ` (capture ${s.hash.substring(0, 7)})` : ''}: ${s.description} ${s.preview}`)
+        .join('\n');
+}
+
+// One question per held-back file: ignore it, move it to Git LFS, or capture everything anyway
+async function settleLargeFiles(findings: FileFinding[]): Promise<'retry' | 'anyway' | undefined> {
+    if (!sacredTimeline) return undefined;
+
+    for (const finding of findings) {
+        const options = [
+            { label: '$(eye-closed) Ignore', description: 'Add to .gitignore, keep it on this computer', value: 'ignore' as const },
+            { label: '$(cloud-upload) Move to Git LFS', description: 'Store the big file separately', value: 'lfs' as const },
+            { label: '$(check) Capture anyway', description: 'Include every held-back file as it is', value: 'anyway' as const }
+        ];
+        if (finding.recommended === 'lfs') {
+            [options[0], options[1]] = [options[1], options[0]];
+        }
+
+        const picked = await vscode.window.showQuickPick(options, {
+            title: `Held back: ${finding.path}`,
+            placeHolder: finding.detail
+        });
+        if (!picked) return undefined;
+        if (picked.value === 'anyway') return 'anyway';
+
+        const result = picked.value === 'ignore'
+            ? await sacredTimeline.ignoreFile(finding.path)
+            : await sacredTimeline.moveToLfs(finding.path);
+        if (!result.success) {
+            vscode.window.showErrorMessage(result.message);
+            return undefined;
+        }
+    }
+    return 'retry';
+}
+
+// UNCAPTURE: Take back the last capture
+async function uncaptureCommand() {
+    if (!sacredTimeline) {
+        vscode.window.showErrorMessage('No workspace open');
+        return;
+    }
+
+    const [last] = await sacredTimeline.timeline(1);
+    if (!last) {
+        vscode.window.showInformationMessage('Nothing to uncapture - there are no captures yet.');
+        return;
+    }
+
+    const action = await vscode.window.showQuickPick([
+        { label: '$(discard) Take back this capture', detail: 'Your files stay exactly as they are', value: 'uncapture' },
+        { label: '$(edit) Just fix the message', detail: 'Keep the capture, change its description', value: 'reword' }
+    ], {
+        title: `Last capture: "${last.message}" (${last.relativeDate})`,
+        placeHolder: 'What would you like to do?'
+    });
+
+    if (!action) return;
+
+    let result;
+    if (action.value === 'reword') {
+        const message = await vscode.window.showInputBox({
+            prompt: 'New message for this capture',
+            value: last.message,
+            validateInput: (text) => {
+                if (!text || text.trim().length === 0) {
+                    return 'Please describe what you accomplished';
+                }
+                return null;
+            }
+        });
+
+        if (!message) return;
+        result = await sacredTimeline.reword(message);
+    } else {
+        result = await sacredTimeline.uncapture();
+    }
+
+    if (result.success) {
+        vscode.window.showInformationMessage(`$(check) ${result.message}`);
+    } else {
+        vscode.window.showWarningMessage(result.message);
+    }
+
+    updateStatusBar();
+}
+
 // LATEST: Bring the latest from cloud
 async function updateCommand() {
     if (!sacredTimeline) {
@@ -120,6 +344,8 @@ async function updateCommand() {
 
     if (result.success) {
         vscode.window.showInformationMessage(`$(cloud-download) ${result.message}`);
+    } else if (result.tangled) {
+        offerUntangle(result.message);
     } else {
         vscode.window.showWarningMessage(result.message);
     }
@@ -134,14 +360,25 @@ async function backupCommand() {
         return;
     }
 
-    const result = await vscode.window.withProgress({
+    const send = (allowSecrets: boolean) => vscode.window.withProgress({
         location: vscode.ProgressLocation.Notification,
         title: 'Backing up to cloud...',
         cancellable: false
     }, async () => {
-        return await sacredTimeline!.backup();
+        return await sacredTimeline!.backup({ allowSecrets });
     });
 
+    let result = await send(false);
+    if (result.secrets && result.secrets.length > 0) {
+        const confirm = await vscode.window.showWarningMessage(
+            result.message,
+            { modal: true, detail: describeSecrets(result.secrets) },
+            'Back up anyway'
+        );
+        if (confirm !== 'Back up anyway') return;
+        result = await send(true);
+    }
+
     if (result.success) {
         vscode.window.showInformationMessage(`$(cloud-upload) ${result.message}`);
     } else {
@@ -231,6 +468,11 @@ async function changesCommand() {
         changes.untracked.forEach(f => items.push({ label: `  ${f}`, description: 'new' }));
     }
 
+    if (changes.deleted.length > 0) {
+        items.push({ label: '$(trash) Deleted', kind: vscode.QuickPickItemKind.Separator });
+        changes.deleted.forEach(f => items.push({ label: `  ${f}`, description: 'deleted' }));
+    }
+
     vscode.window.showQuickPick(items, {
         title: `Changes: ${changes.summary}`,
         canPickMany: false
@@ -244,32 +486,116 @@ async function timelineCommand() {
         return;
     }
 
-    const timeline = await sacredTimeline.timeline(30);
+    const timeline = sacredTimeline;
+    const pageSize = 30;
+    type TimelineItem = vscode.QuickPickItem & { hash: string };
+
+    const toItem = (entry: TimelineEntry): TimelineItem => ({
+        label: `${entry.milestones?.length ? '$(milestone)' : '$(git-commit)'} ${entry.message}`,
+        description: entry.relativeDate,
+        detail: `by ${entry.author}` + (entry.milestones?.length ? ` · Milestone: ${entry.milestones.join(', ')}` : '') +
+            (entry.note ? ` · $(note) ${entry.note.split('\n')[0]}` : ''),
+        hash: entry.hash
+    });
+    const olderItem: TimelineItem = { label: '$(arrow-down) Show older captures', alwaysShow: true, hash: '' };
+
+    // One extra tells us whether there is an older page
+    const first = await timeline.timeline(pageSize + 1);
 
-    if (timeline.length === 0) {
+    if (first.length === 0) {
         vscode.window.showInformationMessage('No captures yet. Create your first capture!');
         return;
     }
 
-    const items = timeline.map(entry => ({
-        label: `$(git-commit) ${entry.message}`,
-        description: entry.relativeDate,
-        detail: `by ${entry.author}`,
-        hash: entry.hash
-    }));
+    const picker = vscode.window.createQuickPick<TimelineItem>();
+    picker.title = 'Timeline - Your capture history';
+    picker.placeholder = 'Select a capture to view or restore';
+    picker.matchOnDetail = true;
+    let loaded = first.slice(0, pageSize).map(toItem);
+    picker.items = first.length > pageSize ? [...loaded, olderItem] : loaded;
+
+    const selected = await new Promise<TimelineItem | undefined>(resolve => {
+        picker.onDidAccept(async () => {
+            const item = picker.selectedItems[0];
+            if (item !== olderItem) {
+                resolve(item);
+                picker.hide();
+                return;
+            }
 
-    const selected = await vscode.window.showQuickPick(items, {
-        title: 'Timeline - Your capture history',
-        placeHolder: 'Select a capture to view or restore'
+            // Older captures load in place, so the list stays where you were
+            picker.busy = true;
+            const older = await timeline.timeline({ limit: pageSize + 1, offset: loaded.length });
+            const added = older.slice(0, pageSize).map(toItem);
+            loaded = [...loaded, ...added];
+            picker.items = older.length > pageSize ? [...loaded, olderItem] : loaded;
+            if (added.length > 0) {
+                picker.activeItems = [added[0]];
+            }
+            picker.busy = false;
+        });
+        picker.onDidHide(() => {
+            resolve(undefined);
+            picker.dispose();
+        });
+        picker.show();
     });
 
     if (selected) {
         const action = await vscode.window.showQuickPick(
-            ['View changes at this point', 'Restore to this point'],
+            ['View changes at this point', 'Bring back this version as a new capture', 'Bring back one file from this point', 'Restore to this point', 'Mark as a milestone', 'Add a note'],
             { placeHolder: `Capture: ${selected.label}` }
         );
 
-        if (action === 'Restore to this point') {
+        if (action === 'Mark as a milestone') {
+            await milestoneCommand(selected.hash);
+        } else if (action === 'Add a note') {
+            const note = await vscode.window.showInputBox({
+                prompt: 'What do you want to remember about this capture?',
+                placeHolder: 'e.g., "This is the version the editor liked"'
+            });
+
+            if (!note) return;
+
+            const result = await sacredTimeline.annotate(selected.hash, note);
+            if (result.success) {
+                vscode.window.showInformationMessage(`$(note) ${result.message}`);
+            } else {
+                vscode.window.showErrorMessage(result.message);
+            }
+        } else if (action === 'Bring back one file from this point') {
+            const files = await sacredTimeline.filesAt(selected.hash);
+            const file = await vscode.window.showQuickPick(files, {
+                title: 'Which file should come back?',
+                placeHolder: 'The rest of your work stays as it is'
+            });
+
+            if (!file) return;
+
+            const result = await sacredTimeline.restoreFile(selected.hash, file);
+            if (result.success) {
+                vscode.window.showInformationMessage(`$(history) ${result.message}`);
+            } else {
+                vscode.window.showErrorMessage(result.message);
+            }
+            updateStatusBar();
+        } else if (action === 'Bring back this version as a new capture') {
+            const confirm = await vscode.window.showWarningMessage(
+                'Your files will match this capture, recorded as a new capture. Nothing after it is lost. Continue?',
+                'Yes, bring it back',
+                'Cancel'
+            );
+
+            if (confirm === 'Yes, bring it back') {
+                const result = await sacredTimeline.bringBack(selected.hash);
+                if (result.success) {
+                    vscode.window.showInformationMessage(`$(history) ${result.message}`);
+                } else {
+                    vscode.window.showErrorMessage(result.message);
+                }
+                updateStatusBar();
+            }
+        } else if (action === 'Restore to this point') {
             const confirm = await vscode.window.showWarningMessage(
                 'This will restore your files to this capture. Continue?',
                 'Yes, restore',
@@ -279,13 +605,198 @@ async function timelineCommand() {
             if (confirm === 'Yes, restore') {
                 const result = await sacredTimeline.restore((selected as any).hash);
                 if (result.success) {
-                    vscode.window.showInformationMessage(result.message);
+                    vscode.window.showInformationMessage(`${result.message}. Use "Return" to get back to your timeline.`);
                 } else {
                     vscode.window.showErrorMessage(result.message);
                 }
+                updateStatusBar();
+            }
+        }
+    }
+}
+
+// SEARCH: Find the capture where something happened
+async function searchCommand() {
+    if (!sacredTimeline) {
+        vscode.window.showErrorMessage('No workspace open');
+        return;
+    }
+
+    const timeline = sacredTimeline;
+    type SearchItem = vscode.QuickPickItem & { match?: SearchMatch };
+
+    const picker = vscode.window.createQuickPick<SearchItem>();
+    picker.title = 'Search: Find a capture by what it says or what it changed';
+    picker.placeholder = 'e.g., "pricing section" - searches messages, notes and content';
+    picker.matchOnDescription = true;
+    picker.matchOnDetail = true;
+
+    // Wait for a pause in typing; each search walks the whole history
+    let pending: ReturnType<typeof setTimeout> | undefined;
+    let latestQuery = '';
+    picker.onDidChangeValue(value => {
+        if (pending) clearTimeout(pending);
+        latestQuery = value;
+        if (!value.trim()) {
+            picker.items = [];
+            return;
+        }
+        pending = setTimeout(async () => {
+            picker.busy = true;
+            const result = await timeline.search(value);
+            if (value !== latestQuery) return;
+            picker.busy = false;
+            picker.items = result.matches.length > 0
+                ? result.matches.map(match => ({
+                    label: `${match.milestones?.length ? '$(milestone)' : '$(git-commit)'} ${match.message}`,
+                    description: match.relativeDate,
+                    detail: (match.file
+                        ? `${match.change === 'removed' ? '$(remove) Removed from' : '$(add) Added to'} ${match.file}: `
+                        : '$(comment) ') + match.snippet,
+                    alwaysShow: true,
+                    match
+                }))
+                : [{ label: result.message, alwaysShow: true }];
+        }, 300);
+    });
+
+    const selected = await new Promise<SearchMatch | undefined>(resolve => {
+        picker.onDidAccept(() => {
+            const match = picker.selectedItems[0]?.match;
+            if (match) {
+                resolve(match);
+                picker.hide();
+            }
+        });
+        picker.onDidHide(() => {
+            resolve(undefined);
+            picker.dispose();
+        });
+        picker.show();
+    });
+
+    if (!selected) return;
+
+    // A removed line lives on in the capture just before this one
+    const fileSource = selected.change === 'removed' ? `${selected.hash}^` : selected.hash;
+    const actions = [
+        ...(selected.file ? [{
+            label: `$(history) Bring back ${selected.file}`,
+            detail: selected.change === 'removed'
+                ? 'As it was just before this capture, while it still had this text'
+                : 'As it was in this capture',
+            value: 'file'
+        }] : []),
+        { label: '$(history) Bring back this version as a new capture', detail: 'Nothing after it is lost', value: 'bringBack' },
+        { label: '$(note) Add a note', detail: 'Remember why this capture matters', value: 'note' }
+    ];
+
+    const action = await vscode.window.showQuickPick(actions, { placeHolder: `Capture: ${selected.message}` });
+    if (!action) return;
+
+    let result: { success: boolean; message: string } | undefined;
+    if (action.value === 'file' && selected.file) {
+        result = await sacredTimeline.restoreFile(fileSource, selected.file);
+    } else if (action.value === 'bringBack') {
+        const confirm = await vscode.window.showWarningMessage(
+            'Your files will match this capture, recorded as a new capture. Nothing after it is lost. Continue?',
+            'Yes, bring it back',
+            'Cancel'
+        );
+        if (confirm === 'Yes, bring it back') {
+            result = await sacredTimeline.bringBack(selected.hash);
+        }
+    } else if (action.value === 'note') {
+        const note = await vscode.window.showInputBox({
+            prompt: 'What do you want to remember about this capture?'
+        });
+        if (note) {
+            result = await sacredTimeline.annotate(selected.hash, note);
+        }
+    }
+
+    if (!result) return;
+
+    if (result.success) {
+        vscode.window.showInformationMessage(`$(check) ${result.message}`);
+    } else {
+        vscode.window.showErrorMessage(result.message);
+    }
+
+    updateStatusBar();
+}
+
+// MILESTONE: Mark a capture as a moment that matters
+async function milestoneCommand(hash?: string) {
+    if (!sacredTimeline) {
+        vscode.window.showErrorMessage('No workspace open');
+        return;
+    }
+
+    const name = await vscode.window.showInputBox({
+        prompt: hash ? 'Name this milestone' : 'Name a milestone for your latest capture',
+        placeHolder: 'e.g., "Sent draft to client" or "v1 of proposal"',
+        validateInput: (text) => {
+            if (!text || text.trim().length === 0) {
+                return 'Please name your milestone';
             }
+            return null;
         }
+    });
+
+    if (!name) return;
+
+    const result = await sacredTimeline.markMilestone(name, typeof hash === 'string' ? hash : undefined);
+
+    if (result.success) {
+        vscode.window.showInformationMessage(`$(milestone) ${result.message}`);
+    } else {
+        vscode.window.showErrorMessage(result.message);
+    }
+}
+
+// MILESTONES: Go back to a marked moment
+async function milestonesCommand() {
+    if (!sacredTimeline) {
+        vscode.window.showErrorMessage('No workspace open');
+        return;
+    }
+
+    const milestones = await sacredTimeline.listMilestones();
+
+    if (milestones.length === 0) {
+        vscode.window.showInformationMessage('No milestones yet. Mark one from the timeline, or with "Milestone: Mark this moment".');
+        return;
+    }
+
+    const selected = await vscode.window.showQuickPick(
+        milestones.map(m => ({
+            label: `$(milestone) ${m.name}`,
+            description: m.relativeDate,
+            detail: m.captureMessage,
+            name: m.name
+        })),
+        { title: 'Milestones', placeHolder: 'Select a milestone to go back to' }
+    );
+
+    if (!selected) return;
+
+    const action = await vscode.window.showQuickPick([
+        { label: '$(history) Bring it back as a new capture', detail: 'Your files match the milestone; nothing after it is lost', bringBack: true },
+        { label: '$(eye) Visit it', detail: 'Look around, then use "Return" to come back', bringBack: false }
+    ], { placeHolder: `Milestone: ${selected.name}` });
+
+    if (!action) return;
+
+    const result = await sacredTimeline.restoreMilestone(selected.name, { bringBack: action.bringBack });
+
+    if (result.success) {
+        vscode.window.showInformationMessage(`$(history) ${result.message}`);
+    } else {
+        vscode.window.showErrorMessage(result.message);
     }
+
+    updateStatusBar();
 }
 
 // EXPERIMENT: Try something risky
@@ -319,6 +830,101 @@ async function experimentCommand() {
     updateStatusBar();
 }
 
+// SWITCH: Move to another experiment
+async function switchExperimentCommand(name?: string) {
+    if (!sacredTimeline) {
+        vscode.window.showErrorMessage('No workspace open');
+        return;
+    }
+
+    if (!name) {
+        const experiments = await sacredTimeline.listExperiments();
+        const items = [
+            { label: '$(git-branch) Main timeline', description: '', name: 'main' },
+            ...experiments.map(e => ({
+                label: `${e.isCurrent ? '$(circle-filled)' : '$(beaker)'} ${e.humanName}`,
+                description: `${e.captures} capture${e.captures !== 1 ? 's' : ''} · ${e.behindMain} behind main`,
+                detail: e.startedFromMessage ? `Started from "${e.startedFromMessage}"` : undefined,
+                name: e.name
+            }))
+        ];
+
+        const selected = await vscode.window.showQuickPick(items, {
+            title: 'Experiments',
+            placeHolder: 'Where do you want to go?'
+        });
+
+        if (!selected) return;
+        name = selected.name;
+    }
+
+    const result = await sacredTimeline.switchExperiment(name);
+
+    if (result.success) {
+        vscode.window.showInformationMessage(`$(beaker) ${result.message}`);
+    } else {
+        vscode.window.showWarningMessage(result.message);
+    }
+
+    updateStatusBar();
+}
+
+// COMPARE: What would keeping this experiment change?
+async function compareCommand(name?: string) {
+    if (!sacredTimeline) {
+        vscode.window.showErrorMessage('No workspace open');
+        return;
+    }
+
+    const result = await sacredTimeline.compareExperiment(name);
+
+    if (!result.success) {
+        vscode.window.showWarningMessage(result.message);
+        return;
+    }
+
+    if (result.files.length === 0) {
+        vscode.window.showInformationMessage(result.message);
+        return;
+    }
+
+    const workspaceRoot = vscode.workspace.workspaceFolders![0].uri;
+    const atRef = (ref: string, file: string) =>
+        vscode.Uri.from({ scheme: CAPTURE_SCHEME, path: `/${file}`, query: `ref=${encodeURIComponent(ref)}` });
+    const resources = result.files.map(f => [
+        vscode.Uri.joinPath(workspaceRoot, f.path),
+        f.status === 'added' ? undefined : atRef(result.base!, f.previousPath || f.path),
+        f.status === 'removed' ? undefined : atRef(result.experiment!, f.path)
+    ]);
+
+    vscode.window.showInformationMessage(result.message);
+
+    try {
+        // Multi-file diff editor (newer VS Code versions)
+        await vscode.commands.executeCommand('vscode.changes', `${result.humanName} vs main`, resources);
+    } catch {
+        const picked = await vscode.window.showQuickPick(
+            result.files.map(f => ({
+                label: f.path,
+                description: f.wordsAdded !== null
+                    ? `${f.status} · +${f.wordsAdded} / -${f.wordsRemoved} words`
+                    : `${f.status} · +${f.linesAdded} / -${f.linesRemoved} lines`,
+                file: f
+            })),
+            { title: `${result.humanName} vs main`, placeHolder: 'Pick a file to see its changes' }
+        );
+
+        if (!picked) return;
+        const f = picked.file;
+        await vscode.commands.executeCommand(
+            'vscode.diff',
+            atRef(result.base!, f.status === 'added' ? f.path : (f.previousPath || f.path)),
+            atRef(result.experiment!, f.path),
+            `${f.path} (main ↔ ${result.humanName})`
+        );
+    }
+}
+
 // KEEP: Keep the experiment
 async function keepCommand() {
     if (!sacredTimeline) {
@@ -326,10 +932,23 @@ async function keepCommand() {
         return;
     }
 
+    // Warn before a keep that would leave the timeline tangled
+    const preview = await sacredTimeline.previewKeep();
+    if (preview.wouldConflict) {
+        const proceed = await vscode.window.showWarningMessage(
+            preview.message,
+            { modal: true, detail: 'You can keep it anyway and untangle afterwards, or adjust the experiment first.' },
+            'Keep anyway'
+        );
+        if (proceed !== 'Keep anyway') return;
+    }
+
     const result = await sacredTimeline.keep();
 
     if (result.success) {
         vscode.window.showInformationMessage(`$(check) ${result.message}`);
+    } else if (result.tangled) {
+        offerUntangle(result.message);
     } else {
         vscode.window.showWarningMessage(result.message);
     }
@@ -376,6 +995,64 @@ async function restoreCommand() {
     await timelineCommand();
 }
 
+// RETURN: Back to my timeline after visiting an earlier capture
+async function returnCommand() {
+    if (!sacredTimeline) {
+        vscode.window.showErrorMessage('No workspace open');
+        return;
+    }
+
+    const result = await sacredTimeline.returnToTimeline();
+
+    if (result.success) {
+        vscode.window.showInformationMessage(`$(check) ${result.message}`);
+    } else {
+        vscode.window.showWarningMessage(result.message);
+    }
+
+    updateStatusBar();
+}
+
+// RESCUE: Bring back a safety snapshot
+async function rescueCommand() {
+    if (!sacredTimeline) {
+        vscode.window.showErrorMessage('No workspace open');
+        return;
+    }
+
+    const snapshots = await sacredTimeline.listSafetySnapshots();
+
+    if (snapshots.length === 0) {
+        vscode.window.showInformationMessage('No safety snapshots yet. One is taken automatically before every keep, discard and restore.');
+        return;
+    }
+
+    const selected = await vscode.window.showQuickPick(
+        snapshots.map(snapshot => ({
+            label: `$(lifebuoy) ${snapshot.description}`,
+            description: snapshot.relativeDate,
+            detail: snapshot.hasUnsavedWork ? 'Includes unsaved work' : undefined,
+            id: snapshot.id
+        })),
+        {
+            title: 'Rescue - safety snapshots',
+            placeHolder: 'Pick a moment to bring back as an experiment'
+        }
+    );
+
+    if (!selected) return;
+
+    const result = await sacredTimeline.rescue(selected.id);
+
+    if (result.success) {
+        vscode.window.showInformationMessage(`$(check) ${result.message}`);
+    } else {
+        vscode.window.showErrorMessage(result.message);
+    }
+
+    updateStatusBar();
+}
+
 // START: Begin fresh project
 async function startCommand() {
     const workspaceRoot = vscode.workspace.workspaceFolders?.[0]?.uri.fsPath;
@@ -407,7 +1084,7 @@ async function startCommand() {
     updateStatusBar();
 }
 
-// CONNECT: Link to cloud with guided GitHub setup
+// CONNECT: Link to cloud with guided setup for GitHub, GitLab, Bitbucket, Gitea or your own server
 async function connectCommand() {
     if (!sacredTimeline) {
         vscode.window.showErrorMessage('No workspace open');
@@ -423,16 +1100,17 @@ async function connectCommand() {
 
     // Step 1: Create repo instruction
     const createRepo = await vscode.window.showInformationMessage(
-        'Step 1: Create a GitHub repository for your project',
-        { modal: true, detail: 'You\'ll need a GitHub repository to backup your work to the cloud.' },
+        'Step 1: Create a repository for your project',
+        { modal: true, detail: 'You\'ll need an empty repository on GitHub, GitLab, Bitbucket, Gitea or your own git server to backup your work to the cloud.' },
         'Open GitHub',
+        'Open GitLab',
         'I already have one'
     );
 
     if (!createRepo) return;
 
-    if (createRepo === 'Open GitHub') {
-        vscode.env.openExternal(vscode.Uri.parse('https://github.com/new'));
+    if (createRepo !== 'I already have one') {
+        vscode.env.openExternal(vscode.Uri.parse(createRepo === 'Open GitHub' ? 'https://github.com/new' : 'https://gitlab.com/projects/new'));
         // Wait for user to create repo
         const proceed = await vscode.window.showInformationMessage(
             'After creating the repository, click Continue',
@@ -442,86 +1120,135 @@ async function connectCommand() {
         if (proceed !== 'Continue') return;
     }
 
-    // Step 2: Get token
-    const needsToken = await vscode.window.showInformationMessage(
-        'Step 2: Create a Personal Access Token',
-        { modal: true, detail: 'A token lets Sacred Timeline access your repository securely.\n\n✓ Check the "repo" scope\n✓ Set expiration (90 days recommended)\n✓ Copy the token - you won\'t see it again!\n\n🔒 Security: Your token will be stored in .git/config (local only, not synced).' },
-        'Create Token',
-        'I have a token'
-    );
-
-    if (!needsToken) return;
-
-    if (needsToken === 'Create Token') {
-        vscode.env.openExternal(vscode.Uri.parse('https://github.com/settings/tokens/new?description=Sacred%20Timeline&scopes=repo'));
-    }
-
-    // Step 3: Get username
-    const username = await vscode.window.showInputBox({
-        prompt: 'Enter your GitHub username',
-        placeHolder: 'your-username',
+    // Step 2: Get repository URL
+    const url = await vscode.window.showInputBox({
+        prompt: 'Enter your repository URL (HTTPS or SSH)',
+        placeHolder: 'https://github.com/your-name/my-project.git or git@gitlab.com:your-name/my-project.git',
         validateInput: (text) => {
             if (!text || text.trim().length === 0) {
-                return 'Please enter your GitHub username';
+                return 'Please enter the repository URL';
+            }
+            if (!sacredTimeline?.describeHost(text.trim())) {
+                return 'That doesn\'t look like a repository URL. Copy the HTTPS or SSH address from the repository page.';
             }
             return null;
         }
     });
 
-    if (!username) return;
+    if (!url) return;
 
-    // Step 4: Get token
-    const token = await vscode.window.showInputBox({
-        prompt: 'Enter your Personal Access Token',
-        placeHolder: 'ghp_xxxxxxxxxxxx',
-        password: true,
-        validateInput: (text) => {
-            if (!text || text.trim().length === 0) {
-                return 'Please enter your Personal Access Token';
-            }
-            return null;
+    const host = sacredTimeline.describeHost(url.trim());
+    if (!host) return;
+
+    // SSH keys and folders need no token
+    let login: { username: string; token: string } | undefined;
+    if (host.protocol === 'https' || host.protocol === 'http') {
+        // Step 3: Get token
+        const needsToken = await vscode.window.showInformationMessage(
+            `Step 3: Create a token on ${host.name}`,
+            { modal: true, detail: `A token lets Sacred Timeline access your repository securely.\n\n${host.tokenHint}\n✓ Set expiration (90 days recommended)\n✓ Copy the token - you won't see it again!\n\n🔒 Security: Your token is kept in your system's credential manager (or an encrypted file in your home folder), never in the project.` },
+            ...(host.tokenUrl ? ['Create Token'] : []),
+            'I have a token'
+        );
+
+        if (!needsToken) return;
+
+        if (needsToken === 'Create Token' && host.tokenUrl) {
+            vscode.env.openExternal(vscode.Uri.parse(host.tokenUrl));
         }
-    });
 
-    if (!token) return;
+        // Step 4: Get username
+        const username = await vscode.window.showInputBox({
+            prompt: `Enter your ${host.name} username`,
+            placeHolder: 'your-username',
+            validateInput: (text) => {
+                if (!text || text.trim().length === 0) {
+                    return `Please enter your ${host.name} username`;
+                }
+                return null;
+            }
+        });
 
-    // Step 5: Get repository URL
-    const url = await vscode.window.showInputBox({
-        prompt: 'Enter your GitHub repository URL',
-        placeHolder: `https://github.com/${username}/my-project.git`,
-        validateInput: (text) => {
-            if (!text || !text.includes('github.com')) {
-                return 'Please enter a valid GitHub URL';
+        if (!username) return;
+
+        // Step 5: Get token
+        const token = await vscode.window.showInputBox({
+            prompt: 'Enter your Personal Access Token',
+            password: true,
+            validateInput: (text) => {
+                if (!text || text.trim().length === 0) {
+                    return 'Please enter your Personal Access Token';
+                }
+                return null;
             }
-            return null;
-        }
+        });
+
+        if (!token) return;
+        login = { username: username.trim(), token: token.trim() };
+    }
+
+    // Connect, store the token and check the cloud answers
+    const result = await vscode.window.withProgress({
+        location: vscode.ProgressLocation.Notification,
+        title: `Connecting to ${host.name}...`,
+        cancellable: false
+    }, async () => {
+        return await sacredTimeline!.connect(url.trim(), login);
     });
 
-    if (!url) return;
+    if (result.success) {
+        vscode.window.showInformationMessage(`$(plug) ${result.message}`);
+    } else if (result.problem === 'auth' && host.tokenUrl) {
+        const open = await vscode.window.showErrorMessage(result.message, host.protocol === 'ssh' ? 'Open SSH keys' : 'Create Token');
+        if (open) {
+            vscode.env.openExternal(vscode.Uri.parse(host.tokenUrl));
+        }
+    } else {
+        vscode.window.showErrorMessage(result.message);
+    }
 
-    // Connect and configure credentials
-    const connectResult = await sacredTimeline.connect(url);
+    updateStatusBar();
+}
 
-    if (!connectResult.success) {
-        vscode.window.showErrorMessage(connectResult.message);
+// SECURE: Move a token saved by an older version out of .git/config
+async function secureCredentialsCommand() {
+    if (!sacredTimeline) {
+        vscode.window.showErrorMessage('No workspace open');
         return;
     }
 
-    const credResult = await sacredTimeline.configureCredentials(username, token);
+    const result = await sacredTimeline.secureCredentials();
 
-    if (credResult.success) {
-        vscode.window.showInformationMessage('$(plug) Connected to GitHub! You can now backup and update.');
+    if (result.success) {
+        vscode.window.showInformationMessage(`$(lock) ${result.message}`);
     } else {
-        vscode.window.showWarningMessage(credResult.message);
+        vscode.window.showErrorMessage(result.message);
     }
+}
 
-    updateStatusBar();
+// A keep or latest stopped on tangles: go straight to untangling them
+async function offerUntangle(message: string) {
+    const choice = await vscode.window.showWarningMessage(message, 'Untangle');
+    if (choice === 'Untangle') {
+        await untangleCommand();
+    }
 }
 
-// UNTANGLE: Fix conflicts
+// UNTANGLE: Fix conflicts, one file at a time
 async function untangleCommand() {
-    // For now, open the built-in git merge editor
-    vscode.commands.executeCommand('git.openMergeEditor');
+    if (!sacredTimeline) {
+        vscode.window.showErrorMessage('No workspace open');
+        return;
+    }
+
+    const state = await sacredTimeline.listTangles();
+
+    if (!state.inProgress || state.files.length === 0) {
+        vscode.window.showInformationMessage('Nothing is tangled. Your timeline is whole.');
+        return;
+    }
+
+    UntanglePanel.show(sacredTimeline, updateStatusBar);
 }
 
 // NARRATE: Summarize progress in plain English
@@ -569,6 +1296,9 @@ async function narrateCommand() {
             if (stats.busiestDay) {
                 details += `- **Most productive:** ${stats.busiestDay.day} (${stats.busiestDay.captures} captures)\n`;
             }
+            if (stats.words.added > 0 || stats.words.removed > 0) {
+                details += `- **Words:** ${stats.words.added.toLocaleString('en-US')} written, ${stats.words.removed.toLocaleString('en-US')} cut\n`;
+            }
 
             if (stats.topFiles.length > 0) {
                 details += `\n## Most Active Files\n`;
@@ -578,6 +1308,21 @@ async function narrateCommand() {
                 });
             }
 
+            if (stats.words.files.length > 0) {
+                details += `\n## Where the Words Went\n`;
+                stats.words.files.forEach(w => {
+                    details += `- **${w.path}** - ${w.wordsAdded.toLocaleString('en-US')} written, ${w.wordsRemoved.toLocaleString('en-US')} cut\n`;
+                });
+            }
+
+            const experiments = stats.experiments;
+            if (experiments.started + experiments.kept + experiments.discarded > 0) {
+                details += `\n## Experiments\n`;
+                details += `- **Started:** ${experiments.started}${experiments.startedNames.length ? ` (${experiments.startedNames.join(', ')})` : ''}\n`;
+                details += `- **Kept:** ${experiments.kept}${experiments.keptNames.length ? ` (${experiments.keptNames.join(', ')})` : ''}\n`;
+                details += `- **Discarded:** ${experiments.discarded}${experiments.discardedNames.length ? ` (${experiments.discardedNames.join(', ')})` : ''}\n`;
+            }
+
             details += `\n---\n*Generated by Sacred Timeline*`;
 
             // Show in a new document
@@ -592,6 +1337,73 @@ async function narrateCommand() {
     }
 }
 
+// NARRATE FILE: The story of one file, from the editor title bar
+async function narrateFileCommand(uri?: vscode.Uri) {
+    if (!sacredTimeline) {
+        vscode.window.showErrorMessage('No workspace open');
+        return;
+    }
+
+    const target = uri?.scheme === 'file' ? uri : vscode.window.activeTextEditor?.document.uri;
+    if (!target || target.scheme !== 'file') {
+        vscode.window.showInformationMessage('Open a file first, then ask for its story.');
+        return;
+    }
+
+    const story = await vscode.window.withProgress({
+        location: vscode.ProgressLocation.Notification,
+        title: 'Reading this file\'s history...',
+        cancellable: false
+    }, async () => {
+        return await sacredTimeline!.narrateFile(target.fsPath);
+    });
+
+    if (!story.success) {
+        vscode.window.showErrorMessage(story.summary);
+        return;
+    }
+
+    if (story.captures.length === 0) {
+        vscode.window.showInformationMessage(story.summary);
+        return;
+    }
+
+    let details = `# The Story of ${story.path}\n\n`;
+    details += `${story.summary.split('\n')[0]}\n`;
+
+    if (story.biggestRewrites.length > 0) {
+        details += `\n## Biggest Rewrites\n`;
+        story.biggestRewrites.forEach((c, i) => {
+            details += `${i + 1}. **${c.message}** - ${c.linesAdded} lines in, ${c.linesRemoved} out (${c.relativeDate})\n`;
+        });
+    }
+
+    if (story.renames.length > 0) {
+        details += `\n## Names It Has Had\n`;
+        [...story.renames].reverse().forEach(r => {
+            details += `- \`${r.from}\` → \`${r.to}\` (${r.date.toLocaleDateString()})\n`;
+        });
+    }
+
+    details += `\n## Days It Changed\n`;
+    story.changeDays.forEach(d => {
+        details += `- ${d.day}: ${d.captures} capture${d.captures !== 1 ? 's' : ''}\n`;
+    });
+
+    details += `\n## Every Capture That Touched It\n`;
+    story.captures.forEach(c => {
+        details += `- \`${c.shortHash}\` ${c.message} _(${c.relativeDate})_\n`;
+    });
+
+    details += `\n---\n*Generated by Sacred Timeline*`;
+
+    const doc = await vscode.workspace.openTextDocument({
+        content: details,
+        language: 'markdown'
+    });
+    await vscode.window.showTextDocument(doc, { preview: true });
+}
+
 // Update status bar
 async function updateStatusBar() {
     if (!sacredTimeline) {
@@ -609,6 +1421,16 @@ async function updateStatusBar() {
         return;
     }
 
+    if (status.isDetached) {
+        statusBarItem.text = `$(history) Visiting ${status.detachedAt}`;
+        statusBarItem.tooltip = 'You\'re looking at an earlier capture. Click to return to your timeline.';
+        statusBarItem.command = 'sacredTimeline.return';
+        statusBarItem.show();
+        return;
+    }
+
+    statusBarItem.command = 'sacredTimeline.capture';
+
     const parts: string[] = [];
 
     // Show experiment name if on one
@@ -10,7 +10,7 @@ import { execSync } from 'child_process';
 import * as fs from 'fs';
 import * as os from 'os';
 import * as path from 'path';
-import { SacredTimeline } from './git-wrapper';
+import { SacredTimeline, UntangleChoice } from './git-wrapper';
 
 type JsonRpcId = string | number | null;
 
@@ -56,7 +56,7 @@ const tools: ToolDefinition[] = [
     },
     {
         name: 'sacred_timeline',
-        description: 'List recent captures from the timeline.',
+        description: 'List captures from the timeline, newest first. Page back with offset and narrow down by date, author, file or experiment.',
         inputSchema: {
             type: 'object',
             properties: {
@@ -64,14 +64,86 @@ const tools: ToolDefinition[] = [
                 limit: {
                     type: 'number',
                     description: 'Maximum number of captures to return. Defaults to 30.'
+                },
+                offset: {
+                    type: 'number',
+                    description: 'Skip this many of the newest captures, to page back through history. Defaults to 0.'
+                },
+                since: {
+                    type: 'string',
+                    description: 'Only captures after this date, e.g. "2 weeks ago" or "2026-01-31".'
+                },
+                until: {
+                    type: 'string',
+                    description: 'Only captures before this date.'
+                },
+                author: {
+                    type: 'string',
+                    description: 'Only captures by this author (name or email, partial match).'
+                },
+                path: {
+                    type: 'string',
+                    description: 'Only captures that touched this file or folder.'
+                },
+                experiment: {
+                    type: 'string',
+                    description: 'Show this experiment\'s history (or "main") instead of the current one.'
+                },
+                graph: {
+                    type: 'boolean',
+                    description: 'Return a lane graph of main and every experiment instead: lanes with their fork and keep points, and each capture with its lane and parents. Only limit applies.'
                 }
             },
             additionalProperties: false
         }
     },
+    {
+        name: 'sacred_search',
+        description: 'Find captures whose message or notes mention some text, or whose changes added or removed it. Each match includes the line that matched.',
+        inputSchema: {
+            type: 'object',
+            properties: {
+                cwd: cwdSchema.properties.cwd,
+                query: {
+                    type: 'string',
+                    description: 'Text to look for, e.g. "pricing section". Case-insensitive.'
+                },
+                inMessages: {
+                    type: 'boolean',
+                    description: 'Look in capture messages and notes. Defaults to true.'
+                },
+                inContent: {
+                    type: 'boolean',
+                    description: 'Look in the text each capture added or removed. Defaults to true.'
+                },
+                path: {
+                    type: 'string',
+                    description: 'Only captures that touched this file or folder.'
+                },
+                since: {
+                    type: 'string',
+                    description: 'Only captures after this date, e.g. "2 weeks ago" or "2026-01-31".'
+                },
+                until: {
+                    type: 'string',
+                    description: 'Only captures before this date.'
+                },
+                regex: {
+                    type: 'boolean',
+                    description: 'Treat the query as a regular expression.'
+                },
+                limit: {
+                    type: 'number',
+                    description: 'Maximum number of matches to return. Defaults to 20.'
+                }
+            },
+            required: ['query'],
+            additionalProperties: false
+        }
+    },
     {
         name: 'sacred_narrate',
-        description: 'Summarize recent progress in plain English.',
+        description: 'Summarize recent progress in plain English, including which experiments were started, kept and discarded.',
         inputSchema: {
             type: 'object',
             properties: {
@@ -79,6 +151,14 @@ const tools: ToolDefinition[] = [
                 days: {
                     type: 'number',
                     description: 'Number of days to summarize. Defaults to 7.'
+                },
+                file: {
+                    type: 'string',
+                    description: 'Tell the story of this one file instead: when it was created, how often it changed, its biggest rewrites and renames.'
+                },
+                experiment: {
+                    type: 'string',
+                    description: 'Tell the story of this one experiment instead: where it forked, its captures, files, lifetime and whether it was kept.'
                 }
             },
             additionalProperties: false
@@ -93,22 +173,178 @@ const tools: ToolDefinition[] = [
                 cwd: cwdSchema.properties.cwd,
                 message: {
                     type: 'string',
-                    description: 'Plain-English description of the moment being captured.'
+                    description: 'Plain-English description of the moment being captured. sacred_suggest_message proposes one from the changes.'
+                },
+                paths: {
+                    type: 'array',
+                    items: { type: 'string' },
+                    description: 'Only capture these files, folders or glob patterns. Defaults to every change.'
+                },
+                note: {
+                    type: 'string',
+                    description: 'Optional multi-line note: why this change was made and what comes next.'
+                },
+                allowLargeFiles: {
+                    type: 'boolean',
+                    description: 'Capture even when huge, binary or generated files are found. Only after the user agrees; otherwise offer sacred_large_file_choose.'
+                },
+                allowSecrets: {
+                    type: 'boolean',
+                    description: 'Capture even when the changes look like they hold an API key, token or password. Only after the user confirms they are safe to keep.'
                 }
             },
             required: ['message'],
             additionalProperties: false
         }
     },
+    {
+        name: 'sacred_suggest_message',
+        description: 'Suggest a capture message from the uncaptured changes: new and removed files, Markdown headings added or removed, and words written or cut. Use it instead of vague messages like "update".',
+        inputSchema: {
+            type: 'object',
+            properties: {
+                cwd: cwdSchema.properties.cwd,
+                paths: {
+                    type: 'array',
+                    items: { type: 'string' },
+                    description: 'Only describe these files, folders or patterns (as you would pass to sacred_capture).'
+                }
+            },
+            additionalProperties: false
+        }
+    },
+    {
+        name: 'sacred_check_files',
+        description: 'Look for files too big to capture: huge files, large binaries and generated folders like node_modules. sacred_capture runs the same check and holds back when it finds any. Limits come from .sacred.json.',
+        inputSchema: {
+            type: 'object',
+            properties: {
+                cwd: cwdSchema.properties.cwd,
+                paths: {
+                    type: 'array',
+                    items: { type: 'string' },
+                    description: 'Only check these files, folders or patterns (as you would pass to sacred_capture).'
+                }
+            },
+            additionalProperties: false
+        }
+    },
+    {
+        name: 'sacred_large_file_choose',
+        description: 'Settle a file held back by the large-file check: ignore it (add to .gitignore, stop tracking) or store it with Git LFS.',
+        inputSchema: {
+            type: 'object',
+            properties: {
+                cwd: cwdSchema.properties.cwd,
+                path: {
+                    type: 'string',
+                    description: 'The file or folder, as reported in findings.'
+                },
+                choice: {
+                    type: 'string',
+                    enum: ['ignore', 'lfs'],
+                    description: 'ignore, or lfs to keep it in Git LFS.'
+                }
+            },
+            required: ['path', 'choice'],
+            additionalProperties: false
+        }
+    },
+    {
+        name: 'sacred_annotate',
+        description: 'Add a note to an earlier capture (stored as git notes, so backed-up captures can be annotated too).',
+        inputSchema: {
+            type: 'object',
+            properties: {
+                cwd: cwdSchema.properties.cwd,
+                hash: {
+                    type: 'string',
+                    description: 'Capture hash to annotate.'
+                },
+                note: {
+                    type: 'string',
+                    description: 'The note. Can span several lines.'
+                }
+            },
+            required: ['hash', 'note'],
+            additionalProperties: false
+        }
+    },
+    {
+        name: 'sacred_uncapture',
+        description: 'Take back the most recent capture, keeping the files as they are. Pass message to reword the capture instead. Refuses once the capture is backed up. Requires confirm=true.',
+        inputSchema: {
+            type: 'object',
+            properties: {
+                cwd: cwdSchema.properties.cwd,
+                message: {
+                    type: 'string',
+                    description: 'Optional new message. Rewords the last capture instead of removing it.'
+                },
+                confirm: {
+                    type: 'boolean',
+                    description: 'Must be true because this changes the timeline structure.'
+                }
+            },
+            required: ['confirm'],
+            additionalProperties: false
+        }
+    },
     {
         name: 'sacred_backup',
-        description: 'Send local captures to the connected cloud remote.',
+        description: 'Send local captures to the connected cloud remote. Holds back, with structured secrets findings, when an outgoing capture or note looks like it holds a key or password.',
+        inputSchema: {
+            type: 'object',
+            properties: {
+                cwd: cwdSchema.properties.cwd,
+                allowSecrets: {
+                    type: 'boolean',
+                    description: 'Send even when secrets were found. Only after the user confirms they are safe to share.'
+                }
+            },
+            additionalProperties: false
+        }
+    },
+    {
+        name: 'sacred_secure_credentials',
+        description: 'Move a cloud token saved by an older version (inside the remote URL, or git\'s plain-text store) into a credential manager, and clean the remote URL. Safe to run again.',
         inputSchema: cwdSchema
     },
+    {
+        name: 'sacred_scan_secrets',
+        description: 'Look for API keys, tokens and passwords (known formats plus random-looking values named like secrets). Findings are masked. Extra rules live in .sacred.json under "secrets".',
+        inputSchema: {
+            type: 'object',
+            properties: {
+                cwd: cwdSchema.properties.cwd,
+                scope: {
+                    type: 'string',
+                    enum: ['pending', 'outgoing'],
+                    description: 'pending (default): uncaptured changes. outgoing: captures and notes that sacred_backup would send.'
+                },
+                paths: {
+                    type: 'array',
+                    items: { type: 'string' },
+                    description: 'Only scan these files, folders or patterns (pending scope only).'
+                }
+            },
+            additionalProperties: false
+        }
+    },
     {
         name: 'sacred_latest',
-        description: 'Bring the latest captures from the connected cloud remote.',
-        inputSchema: cwdSchema
+        description: 'Bring the latest captures from the connected cloud remote. With preview=true, only report whether it would tangle.',
+        inputSchema: {
+            type: 'object',
+            properties: {
+                cwd: cwdSchema.properties.cwd,
+                preview: {
+                    type: 'boolean',
+                    description: 'Check for tangles without changing anything.'
+                }
+            },
+            additionalProperties: false
+        }
     },
     {
         name: 'sacred_experiment',
@@ -126,10 +362,60 @@ const tools: ToolDefinition[] = [
             additionalProperties: false
         }
     },
+    {
+        name: 'sacred_experiments',
+        description: 'List experiments with their human name, start point, capture count and drift from main.',
+        inputSchema: cwdSchema
+    },
+    {
+        name: 'sacred_switch',
+        description: 'Switch to another experiment, or back to main. Refuses when there are uncaptured changes.',
+        inputSchema: {
+            type: 'object',
+            properties: {
+                cwd: cwdSchema.properties.cwd,
+                name: {
+                    type: 'string',
+                    description: 'Human or branch name of the experiment, or "main".'
+                }
+            },
+            required: ['name'],
+            additionalProperties: false
+        }
+    },
+    {
+        name: 'sacred_compare',
+        description: 'Summarize what an experiment changed compared to main: files added, removed, modified and renamed, with line and word counts.',
+        inputSchema: {
+            type: 'object',
+            properties: {
+                cwd: cwdSchema.properties.cwd,
+                name: {
+                    type: 'string',
+                    description: 'Experiment to compare. Defaults to the current experiment.'
+                }
+            },
+            additionalProperties: false
+        }
+    },
     {
         name: 'sacred_keep',
-        description: 'Keep the current experiment by merging it into the main timeline. Requires confirm=true.',
-        inputSchema: confirmSchema()
+        description: 'Keep the current experiment by merging it into the main timeline. Requires confirm=true, unless preview=true which only reports whether it would tangle.',
+        inputSchema: {
+            type: 'object',
+            properties: {
+                cwd: cwdSchema.properties.cwd,
+                preview: {
+                    type: 'boolean',
+                    description: 'Check for tangles without changing anything.'
+                },
+                confirm: {
+                    type: 'boolean',
+                    description: 'Must be true because this changes the timeline structure.'
+                }
+            },
+            additionalProperties: false
+        }
     },
     {
         name: 'sacred_discard',
@@ -138,7 +424,7 @@ const tools: ToolDefinition[] = [
     },
     {
         name: 'sacred_restore',
-        description: 'Restore an earlier capture. Requires confirm=true.',
+        description: 'Restore an earlier capture (by hash or milestone name), or a single file from it when path is given. Requires confirm=true.',
         inputSchema: {
             type: 'object',
             properties: {
@@ -147,12 +433,121 @@ const tools: ToolDefinition[] = [
                     type: 'string',
                     description: 'Capture hash or ref to restore.'
                 },
+                milestone: {
+                    type: 'string',
+                    description: 'Restore to this milestone by name instead of a hash.'
+                },
+                path: {
+                    type: 'string',
+                    description: 'Optional file to bring back from that capture. Leaves everything else as it is.'
+                },
+                mode: {
+                    type: 'string',
+                    enum: ['visit', 'bring-back'],
+                    description: 'visit checks out the capture (detached). bring-back records its state as a new capture and stays on the timeline. Defaults to visit.'
+                },
                 confirm: {
                     type: 'boolean',
                     description: 'Must be true to restore.'
                 }
             },
-            required: ['hash', 'confirm'],
+            required: ['confirm'],
+            additionalProperties: false
+        }
+    },
+    {
+        name: 'sacred_milestone',
+        description: 'Mark a capture as a milestone, like "Sent draft to client". Stored as an annotated tag, pushed by backup and protected from uncapture.',
+        inputSchema: {
+            type: 'object',
+            properties: {
+                cwd: cwdSchema.properties.cwd,
+                name: {
+                    type: 'string',
+                    description: 'Human name for the milestone.'
+                },
+                hash: {
+                    type: 'string',
+                    description: 'Capture to mark. Defaults to the latest capture.'
+                }
+            },
+            required: ['name'],
+            additionalProperties: false
+        }
+    },
+    {
+        name: 'sacred_milestones',
+        description: 'List milestones, newest first, with the capture each one marks.',
+        inputSchema: cwdSchema
+    },
+    {
+        name: 'sacred_return',
+        description: 'Leave an earlier capture being visited and go back to the timeline branch.',
+        inputSchema: cwdSchema
+    },
+    {
+        name: 'sacred_untangle_list',
+        description: 'List tangled (conflicted) files after a keep or latest, and what "mine" and "theirs" mean right now.',
+        inputSchema: cwdSchema
+    },
+    {
+        name: 'sacred_untangle_choose',
+        description: 'Settle one tangled file by keeping mine, theirs, or both (the other version is saved as a copy). Finishes the keep or latest once nothing is left.',
+        inputSchema: {
+            type: 'object',
+            properties: {
+                cwd: cwdSchema.properties.cwd,
+                path: {
+                    type: 'string',
+                    description: 'Tangled file, as listed by sacred_untangle_list.'
+                },
+                choice: {
+                    type: 'string',
+                    enum: ['mine', 'theirs', 'both'],
+                    description: 'Which version to keep.'
+                }
+            },
+            required: ['path', 'choice'],
+            additionalProperties: false
+        }
+    },
+    {
+        name: 'sacred_untangle_resolved',
+        description: 'Mark a tangled file as fixed by hand. Refuses while tangle markers remain in the file.',
+        inputSchema: {
+            type: 'object',
+            properties: {
+                cwd: cwdSchema.properties.cwd,
+                path: {
+                    type: 'string',
+                    description: 'Tangled file that has been edited into shape.'
+                }
+            },
+            required: ['path'],
+            additionalProperties: false
+        }
+    },
+    {
+        name: 'sacred_untangle_abandon',
+        description: 'Abandon the tangled keep or latest and go back to how things were. Requires confirm=true.',
+        inputSchema: confirmSchema()
+    },
+    {
+        name: 'sacred_rescue',
+        description: 'List the safety snapshots taken before keep, discard and restore. Pass id to bring one back as an experiment, which requires confirm=true.',
+        inputSchema: {
+            type: 'object',
+            properties: {
+                cwd: cwdSchema.properties.cwd,
+                id: {
+                    type: 'string',
+                    description: 'Snapshot id, or its number in the list (1 = newest). Omit to list snapshots.'
+                },
+                confirm: {
+                    type: 'boolean',
+                    description: 'Must be true to bring a snapshot back.'
+                }
+            },
             additionalProperties: false
         }
     },
@@ -188,6 +583,14 @@ function getNumber(args: Record<string, unknown>, key: string, fallback: number)
     return typeof value === 'number' && Number.isFinite(value) ? value : fallback;
 }
 
+function getStringArray(args: Record<string, unknown>, key: string): string[] {
+    const value = args[key];
+    if (!Array.isArray(value)) {
+        return [];
+    }
+    return value.filter((item): item is string => typeof item === 'string' && item.trim().length > 0);
+}
+
 function getWorkspace(args: Record<string, unknown>): string {
     return getString(args, 'cwd') || process.cwd();
 }
@@ -265,7 +668,13 @@ async function buildDoctorPayload(sacred: SacredTimeline): Promise<unknown> {
             detail: remotes.length > 0 ? remotes.map(remote => remote.name).join(', ') : 'No remote connected'
         });
         if (remotes.length === 0) {
-            recommendations.push('Run `sacred connect <github-url>` to connect cloud backup.');
+            recommendations.push('Run `sacred connect <repository-url>` to connect cloud backup (any git host, HTTPS or SSH).');
+        }
+
+        const credentials = await sacred.checkCredentials();
+        checks.push({ name: 'credentials', ok: credentials.ok, detail: credentials.detail });
+        if (!credentials.ok) {
+            recommendations.push('Run sacred_secure_credentials to move the saved login out of the project.');
         }
 
         checks.push({
@@ -279,6 +688,9 @@ async function buildDoctorPayload(sacred: SacredTimeline): Promise<unknown> {
         if (status.behindCloud > 0) {
             recommendations.push('Run `sacred latest` to bring cloud captures into this folder.');
         }
+        if (status.isDetached) {
+            recommendations.push('Run `sacred return` to get back to the timeline before capturing.');
+        }
     }
 
     const codexSkill = path.join(os.homedir(), '.codex/skills/sacred-timeline/SKILL.md');
@@ -334,19 +746,94 @@ async function callTool(name: string, rawArgs: Record<string, unknown> = {}): Pr
         case 'sacred_changes':
             return textResult(await sacred.changes());
         case 'sacred_timeline':
-            return textResult(await sacred.timeline(getNumber(rawArgs, 'limit', 30)));
-        case 'sacred_narrate':
+            if (rawArgs.graph === true) {
+                return textResult(await sacred.timelineGraph(getNumber(rawArgs, 'limit', 30)));
+            }
+            return textResult(await sacred.timeline({
+                limit: getNumber(rawArgs, 'limit', 30),
+                offset: getNumber(rawArgs, 'offset', 0),
+                since: getString(rawArgs, 'since') || undefined,
+                until: getString(rawArgs, 'until') || undefined,
+                author: getString(rawArgs, 'author') || undefined,
+                path: getString(rawArgs, 'path') || undefined,
+                experiment: getString(rawArgs, 'experiment') || undefined
+            }));
+        case 'sacred_search': {
+            const query = getString(rawArgs, 'query');
+            if (!query) {
+                return textResult({ success: false, message: 'query is required' }, true);
+            }
+            return textResult(await sacred.search(query, {
+                inMessages: rawArgs.inMessages !== false,
+                inContent: rawArgs.inContent !== false,
+                path: getString(rawArgs, 'path') || undefined,
+                since: getString(rawArgs, 'since') || undefined,
+                until: getString(rawArgs, 'until') || undefined,
+                regex: rawArgs.regex === true,
+                limit: getNumber(rawArgs, 'limit', 20)
+            }));
+        }
+        case 'sacred_narrate': {
+            const experiment = getString(rawArgs, 'experiment');
+            if (experiment) {
+                return textResult(await sacred.narrateExperiment(experiment));
+            }
+            const file = getString(rawArgs, 'file');
+            if (file) {
+                return textResult(await sacred.narrateFile(file));
+            }
             return textResult(await sacred.narrate(getNumber(rawArgs, 'days', 7)));
+        }
         case 'sacred_capture': {
             const message = getString(rawArgs, 'message');
             if (!message) {
                 return textResult({ success: false, message: 'message is required' }, true);
             }
-            return textResult(await sacred.capture(message));
+            return textResult(await sacred.capture(message, getStringArray(rawArgs, 'paths'), getString(rawArgs, 'note') || undefined, {
+                allowLargeFiles: rawArgs.allowLargeFiles === true,
+                allowSecrets: rawArgs.allowSecrets === true
+            }));
+        }
+        case 'sacred_suggest_message':
+            return textResult(await sacred.suggestMessage(getStringArray(rawArgs, 'paths')));
+        case 'sacred_check_files':
+            return textResult(await sacred.checkFiles(getStringArray(rawArgs, 'paths')));
+        case 'sacred_large_file_choose': {
+            const filePath = getString(rawArgs, 'path');
+            const choice = getString(rawArgs, 'choice');
+            if (!filePath || (choice !== 'ignore' && choice !== 'lfs')) {
+                return textResult({ success: false, message: 'path and choice (ignore or lfs) are required' }, true);
+            }
+            return textResult(choice === 'ignore' ? await sacred.ignoreFile(filePath) : await sacred.moveToLfs(filePath));
+        }
+        case 'sacred_annotate': {
+            const hash = getString(rawArgs, 'hash');
+            const note = getString(rawArgs, 'note');
+            if (!hash || !note) {
+                return textResult({ success: false, message: 'hash and note are required' }, true);
+            }
+            return textResult(await sacred.annotate(hash, note));
+        }
+        case 'sacred_uncapture': {
+            if (rawArgs.confirm !== true) {
+                return textResult({ success: false, message: 'Set confirm=true to take back the last capture.' }, true);
+            }
+            const message = getString(rawArgs, 'message');
+            return textResult(message ? await sacred.reword(message) : await sacred.uncapture());
         }
         case 'sacred_backup':
-            return textResult(await sacred.backup());
+            return textResult(await sacred.backup({ allowSecrets: rawArgs.allowSecrets === true }));
+        case 'sacred_secure_credentials':
+            return textResult(await sacred.secureCredentials());
+        case 'sacred_scan_secrets':
+            return textResult(await sacred.scanSecrets(
+                getString(rawArgs, 'scope') === 'outgoing' ? 'outgoing' : 'pending',
+                getStringArray(rawArgs, 'paths')
+            ));
         case 'sacred_latest':
+            if (rawArgs.preview === true) {
+                return textResult(await sacred.previewUpdate());
+            }
             return textResult(await sacred.update());
         case 'sacred_experiment': {
             const experimentName = getString(rawArgs, 'name');
@@ -355,7 +842,21 @@ async function callTool(name: string, rawArgs: Record<string, unknown> = {}): Pr
             }
             return textResult(await sacred.experiment(experimentName));
         }
+        case 'sacred_experiments':
+            return textResult(await sacred.listExperiments());
+        case 'sacred_switch': {
+            const experimentName = getString(rawArgs, 'name');
+            if (!experimentName) {
+                return textResult({ success: false, message: 'name is required' }, true);
+            }
+            return textResult(await sacred.switchExperiment(experimentName));
+        }
+        case 'sacred_compare':
+            return textResult(await sacred.compareExperiment(getString(rawArgs, 'name') || undefined));
         case 'sacred_keep':
+            if (rawArgs.preview === true) {
+                return textResult(await sacred.previewKeep());
+            }
             if (rawArgs.confirm !== true) {
                 return textResult({ success: false, message: 'Set confirm=true to keep this experiment.' }, true);
             }
@@ -367,13 +868,69 @@ async function callTool(name: string, rawArgs: Record<string, unknown> = {}): Pr
             return textResult(await sacred.discard());
         case 'sacred_restore': {
             const hash = getString(rawArgs, 'hash');
+            const milestone = getString(rawArgs, 'milestone');
+            if (!hash && !milestone) {
+                return textResult({ success: false, message: 'hash or milestone is required' }, true);
+            }
+            if (rawArgs.confirm !== true) {
+                return textResult({ success: false, message: 'Set confirm=true to restore an earlier capture.' }, true);
+            }
+            if (milestone) {
+                return textResult(await sacred.restoreMilestone(milestone, { bringBack: getString(rawArgs, 'mode') === 'bring-back' }));
+            }
             if (!hash) {
                 return textResult({ success: false, message: 'hash is required' }, true);
             }
+            const filePath = getString(rawArgs, 'path');
+            if (filePath) {
+                return textResult(await sacred.restoreFile(hash, filePath));
+            }
+            return textResult(getString(rawArgs, 'mode') === 'bring-back'
+                ? await sacred.bringBack(hash)
+                : await sacred.restore(hash));
+        }
+        case 'sacred_milestone': {
+            const milestoneName = getString(rawArgs, 'name');
+            if (!milestoneName) {
+                return textResult({ success: false, message: 'name is required' }, true);
+            }
+            return textResult(await sacred.markMilestone(milestoneName, getString(rawArgs, 'hash') || undefined));
+        }
+        case 'sacred_milestones':
+            return textResult(await sacred.listMilestones());
+        case 'sacred_return':
+            return textResult(await sacred.returnToTimeline());
+        case 'sacred_untangle_list':
+            return textResult(await sacred.listTangles());
+        case 'sacred_untangle_choose': {
+            const filePath = getString(rawArgs, 'path');
+            const choice = getString(rawArgs, 'choice');
+            if (!filePath || !choice || !['mine', 'theirs', 'both'].includes(choice)) {
+                return textResult({ success: false, message: 'path and choice (mine, theirs or both) are required' }, true);
+            }
+            return textResult(await sacred.untangleFile(filePath, choice as UntangleChoice));
+        }
+        case 'sacred_untangle_resolved': {
+            const filePath = getString(rawArgs, 'path');
+            if (!filePath) {
+                return textResult({ success: false, message: 'path is required' }, true);
+            }
+            return textResult(await sacred.markUntangled(filePath));
+        }
+        case 'sacred_untangle_abandon':
             if (rawArgs.confirm !== true) {
-                return textResult({ success: false, message: 'Set confirm=true to restore an earlier capture.' }, true);
+                return textResult({ success: false, message: 'Set confirm=true to abandon untangling.' }, true);
+            }
+            return textResult(await sacred.abandonUntangle());
+        case 'sacred_rescue': {
+            const id = getString(rawArgs, 'id');
+            if (!id) {
+                return textResult(await sacred.listSafetySnapshots());
+            }
+            if (rawArgs.confirm !== true) {
+                return textResult({ success: false, message: 'Set confirm=true to bring this snapshot back.' }, true);
             }
-            return textResult(await sacred.restore(hash));
+            return textResult(await sacred.rescue(id));
         }
         case 'sacred_doctor':
             return textResult(await buildDoctorPayload(sacred));
@@ -7,8 +7,13 @@
 import * as vscode from 'vscode';
 import { SacredTimeline } from './git-wrapper';
 
+// Captures shown at first, and how many more each "Show older" brings in
+const TIMELINE_FIRST_PAGE = 5;
+const TIMELINE_PAGE = 10;
+
 export class SidebarProvider implements vscode.WebviewViewProvider {
     private _view?: vscode.WebviewView;
+    private _timelineShown = TIMELINE_FIRST_PAGE;
 
     constructor(
         private readonly _extensionUri: vscode.Uri,
@@ -59,9 +64,31 @@ export class SidebarProvider implements vscode.WebviewViewProvider {
                 case 'connect':
                     vscode.commands.executeCommand('sacredTimeline.connect');
                     break;
+                case 'switchExperiment':
+                    await vscode.commands.executeCommand('sacredTimeline.switchExperiment', data.name);
+                    this._updateView();
+                    break;
+                case 'compare':
+                    vscode.commands.executeCommand('sacredTimeline.compare');
+                    break;
+                case 'return':
+                    vscode.commands.executeCommand('sacredTimeline.return');
+                    break;
+                case 'untangle':
+                    vscode.commands.executeCommand('sacredTimeline.untangle');
+                    break;
                 case 'start':
                     vscode.commands.executeCommand('sacredTimeline.start');
                     break;
+                case 'olderTimeline':
+                    this._loadOlderTimeline();
+                    break;
+                case 'graph':
+                    this._view?.webview.postMessage({
+                        type: 'graph',
+                        graph: await this._sacredTimeline?.timelineGraph(30)
+                    });
+                    break;
                 case 'refresh':
                     this._updateView();
                     break;
@@ -77,21 +104,39 @@ export class SidebarProvider implements vscode.WebviewViewProvider {
 
         const status = await this._sacredTimeline.getStatusSummary();
         const changes = await this._sacredTimeline.changes();
-        const timeline = await this._sacredTimeline.timeline(5);
+        // One extra tells the view whether there is anything older
+        const timeline = await this._sacredTimeline.timeline(this._timelineShown + 1);
         const isConnected = await this._sacredTimeline.isConnected();
         const worktrees = await this._sacredTimeline.getWorktrees();
+        const experiments = await this._sacredTimeline.listExperiments();
 
         this._view.webview.postMessage({
             type: 'update',
             status,
             changes,
-            timeline,
+            timeline: timeline.slice(0, this._timelineShown),
+            hasOlderTimeline: timeline.length > this._timelineShown,
             isConnected,
+            experiments,
             hasWorktrees: worktrees.length > 1,
             worktreeCount: worktrees.length
         });
     }
 
+    private async _loadOlderTimeline() {
+        if (!this._view || !this._sacredTimeline) return;
+
+        const older = await this._sacredTimeline.timeline({ limit: TIMELINE_PAGE + 1, offset: this._timelineShown });
+        const entries = older.slice(0, TIMELINE_PAGE);
+        this._timelineShown += entries.length;
+
+        this._view.webview.postMessage({
+            type: 'olderTimeline',
+            timeline: entries,
+            hasOlderTimeline: older.length > TIMELINE_PAGE
+        });
+    }
+
     private _getHtmlForWebview(webview: vscode.Webview) {
         return `<!DOCTYPE html>
 <html lang="en">
@@ -229,6 +274,15 @@ export class SidebarProvider implements vscode.WebviewViewProvider {
             background: var(--vscode-gitDecoration-modifiedResourceForeground);
         }
 
+        .change-item .indicator.deleted {
+            background: var(--vscode-gitDecoration-deletedResourceForeground);
+        }
+
+        .change-item .word-delta {
+            margin-left: auto;
+            color: var(--vscode-descriptionForeground);
+        }
+
         .timeline-list {
             background: var(--vscode-editor-background);
             border-radius: 4px;
@@ -263,6 +317,30 @@ export class SidebarProvider implements vscode.WebviewViewProvider {
             background: var(--vscode-gitDecoration-addedResourceForeground);
         }
 
+        /* Milestones get a diamond instead of a dot */
+        .timeline-item.milestone::before {
+            border-radius: 1px;
+            transform: rotate(45deg);
+            background: var(--vscode-charts-yellow);
+        }
+
+        .timeline-milestone {
+            font-size: 10px;
+            font-weight: 600;
+            color: var(--vscode-charts-yellow);
+            margin-bottom: 2px;
+        }
+
+        .timeline-note {
+            font-size: 11px;
+            font-style: italic;
+            color: var(--vscode-descriptionForeground);
+            margin-top: 2px;
+            overflow: hidden;
+            text-overflow: ellipsis;
+            white-space: nowrap;
+        }
+
         .timeline-message {
             font-size: 12px;
             margin-bottom: 4px;
@@ -280,6 +358,64 @@ export class SidebarProvider implements vscode.WebviewViewProvider {
             opacity: 0.8;
         }
 
+        .older-link {
+            display: block;
+            width: 100%;
+            margin-top: 4px;
+            padding: 4px;
+            background: transparent;
+            color: var(--vscode-textLink-foreground);
+            font-size: 11px;
+        }
+
+        .older-link:hover {
+            background: transparent;
+            color: var(--vscode-textLink-activeForeground);
+            text-decoration: underline;
+        }
+
+        .view-toggle {
+            float: right;
+            padding: 0;
+            background: transparent;
+            color: var(--vscode-textLink-foreground);
+            font-size: 10px;
+            text-transform: none;
+            letter-spacing: 0;
+        }
+
+        .view-toggle:hover {
+            background: transparent;
+            text-decoration: underline;
+        }
+
+        .timeline-graph {
+            background: var(--vscode-editor-background);
+            border-radius: 4px;
+            padding: 8px 0;
+            position: relative;
+        }
+
+        .timeline-graph svg {
+            position: absolute;
+            top: 8px;
+            left: 0;
+        }
+
+        .graph-row {
+            height: 34px;
+            overflow: hidden;
+            padding-right: 8px;
+        }
+
+        .graph-row .timeline-meta span + span::before {
+            content: ' · ';
+        }
+
+        .graph-lane-name {
+            color: var(--vscode-charts-blue);
+        }
+
         .empty-state {
             text-align: center;
             padding: 20px;
@@ -298,6 +434,40 @@ export class SidebarProvider implements vscode.WebviewViewProvider {
             gap: 8px;
         }
 
+        .experiment-list {
+            background: var(--vscode-editor-background);
+            border-radius: 4px;
+            padding: 4px 8px;
+            margin-bottom: 8px;
+        }
+
+        .experiment-item {
+            padding: 6px 0;
+            cursor: pointer;
+            border-bottom: 1px solid var(--vscode-widget-border);
+        }
+
+        .experiment-item:last-child {
+            border-bottom: none;
+        }
+
+        .experiment-item:hover .experiment-name {
+            text-decoration: underline;
+        }
+
+        .experiment-item.current .experiment-name {
+            font-weight: 600;
+        }
+
+        .experiment-name {
+            font-size: 12px;
+        }
+
+        .experiment-meta {
+            font-size: 10px;
+            color: var(--vscode-descriptionForeground);
+        }
+
         .keyboard-hint {
             font-size: 10px;
             color: var(--vscode-descriptionForeground);
@@ -324,6 +494,19 @@ export class SidebarProvider implements vscode.WebviewViewProvider {
     <div id="experimentBanner" class="experiment-banner" style="display: none;">
         <span>🧪</span>
         <span>Experiment: <strong id="experimentName"></strong></span>
+        <button onclick="sendMessage('compare')" style="margin-left: auto; padding: 4px 8px;">Compare</button>
+    </div>
+
+    <div id="detachedBanner" class="experiment-banner" style="display: none;">
+        <span>⏸</span>
+        <span>Visiting capture <strong id="detachedAt"></strong></span>
+        <button onclick="sendMessage('return')" style="margin-left: auto; padding: 4px 8px;">Return</button>
+    </div>
+
+    <div id="tangleBanner" class="experiment-banner" style="display: none;">
+        <span>🧶</span>
+        <span>Some files are tangled</span>
+        <button onclick="sendMessage('untangle')" style="margin-left: auto; padding: 4px 8px;">Untangle</button>
     </div>
 
     <div class="section">
@@ -354,10 +537,12 @@ export class SidebarProvider implements vscode.WebviewViewProvider {
     </div>
 
     <div class="section">
-        <div class="section-title">Recent Timeline</div>
+        <div class="section-title">Recent Timeline <button class="view-toggle" id="graphToggle" onclick="toggleGraph()">Graph</button></div>
         <div class="timeline-list" id="timelineList">
             <div class="empty-state">No captures yet</div>
         </div>
+        <div class="timeline-graph" id="timelineGraph" style="display: none;"></div>
+        <button class="older-link" id="olderTimeline" onclick="sendMessage('olderTimeline')" style="display: none;">Show older captures</button>
         <div class="button-grid" style="margin-top: 8px;">
             <button onclick="sendMessage('timeline')">
                 <span class="icon">📜</span>
@@ -372,6 +557,7 @@ export class SidebarProvider implements vscode.WebviewViewProvider {
 
     <div class="section">
         <div class="section-title">Experiments</div>
+        <div class="experiment-list" id="experimentList" style="display: none;"></div>
         <div class="button-grid single">
             <button onclick="sendMessage('experiment')">
                 <span class="icon">🧪</span>
@@ -403,8 +589,8 @@ export class SidebarProvider implements vscode.WebviewViewProvider {
     <script>
         const vscode = acquireVsCodeApi();
 
-        function sendMessage(type) {
-            vscode.postMessage({ type });
+        function sendMessage(type, payload) {
+            vscode.postMessage({ type, ...payload });
         }
 
         // Handle messages from extension
@@ -413,11 +599,17 @@ export class SidebarProvider implements vscode.WebviewViewProvider {
 
             if (message.type === 'update') {
                 updateUI(message);
+                if (showingGraph) sendMessage('graph');
+            } else if (message.type === 'graph') {
+                renderGraph(message.graph);
+            } else if (message.type === 'olderTimeline') {
+                document.getElementById('timelineList').insertAdjacentHTML('beforeend', message.timeline.map(timelineItemHtml).join(''));
+                document.getElementById('olderTimeline').style.display = message.hasOlderTimeline ? 'block' : 'none';
             }
         });
 
         function updateUI(data) {
-            const { status, changes, timeline, isConnected, hasWorktrees, worktreeCount } = data;
+            const { status, changes, timeline, hasOlderTimeline, experiments, isConnected, hasWorktrees, worktreeCount } = data;
 
             // Update backup buttons based on worktrees
             const backupBtn = document.getElementById('backupBtn');
@@ -449,6 +641,18 @@ export class SidebarProvider implements vscode.WebviewViewProvider {
                 banner.style.display = 'none';
             }
 
+            // Update detached banner (visiting an earlier capture)
+            const detachedBanner = document.getElementById('detachedBanner');
+            if (status.isDetached) {
+                detachedBanner.style.display = 'flex';
+                document.getElementById('detachedAt').textContent = status.detachedAt;
+            } else {
+                detachedBanner.style.display = 'none';
+            }
+
+            // Update tangle banner
+            document.getElementById('tangleBanner').style.display = status.hasConflicts ? 'flex' : 'none';
+
             // Update changes list
             const changesSection = document.getElementById('changesSection');
             const changesList = document.getElementById('changesList');
@@ -457,11 +661,20 @@ export class SidebarProvider implements vscode.WebviewViewProvider {
                 changesSection.style.display = 'block';
                 let html = '';
 
+                // Word deltas for prose files, e.g. "+320 −45"
+                const wordsFor = (f) => {
+                    const w = changes.words.find(item => item.path === f);
+                    return w ? '<span class="word-delta">+' + w.wordsAdded.toLocaleString() + ' −' + w.wordsRemoved.toLocaleString() + '</span>' : '';
+                };
+
                 changes.untracked.forEach(f => {
-                    html += '<div class="change-item"><span class="indicator new"></span>' + f + '</div>';
+                    html += '<div class="change-item"><span class="indicator new"></span>' + f + wordsFor(f) + '</div>';
                 });
                 changes.unstaged.forEach(f => {
-                    html += '<div class="change-item"><span class="indicator modified"></span>' + f + '</div>';
+                    html += '<div class="change-item"><span class="indicator modified"></span>' + f + wordsFor(f) + '</div>';
+                });
+                changes.deleted.forEach(f => {
+                    html += '<div class="change-item"><span class="indicator deleted"></span>' + f + '</div>';
                 });
 
                 changesList.innerHTML = html || '<div class="empty-state">No changes</div>';
@@ -473,22 +686,30 @@ export class SidebarProvider implements vscode.WebviewViewProvider {
             const timelineList = document.getElementById('timelineList');
 
             if (timeline.length > 0) {
+                timelineList.innerHTML = timeline.map(timelineItemHtml).join('');
+            } else {
+                timelineList.innerHTML = '<div class="empty-state">No captures yet. Create your first!</div>';
+            }
+            document.getElementById('olderTimeline').style.display = hasOlderTimeline ? 'block' : 'none';
+
+            // Update experiments list
+            const experimentList = document.getElementById('experimentList');
+            if (experiments.length > 0) {
                 let html = '';
-                timeline.forEach((entry, index) => {
-                    // Truncate long messages
-                    const msg = entry.message.length > 60
-                        ? entry.message.substring(0, 57) + '...'
-                        : entry.message;
-                    html += '<div class="timeline-item">' +
-                        '<div class="timeline-message">' + escapeHtml(msg) + '</div>' +
-                        '<div class="timeline-meta">' +
-                        '<span class="date">' + entry.relativeDate + '</span>' +
-                        '</div>' +
+                experiments.forEach(e => {
+                    html += '<div class="experiment-item' + (e.isCurrent ? ' current' : '') + '" data-name="' + escapeHtml(e.name) + '">' +
+                        '<div class="experiment-name">' + (e.isCurrent ? '● ' : '🧪 ') + escapeHtml(e.humanName) + '</div>' +
+                        '<div class="experiment-meta">' + e.captures + ' capture' + (e.captures !== 1 ? 's' : '') +
+                        ' · ' + e.behindMain + ' behind main</div>' +
                         '</div>';
                 });
-                timelineList.innerHTML = html;
+                experimentList.innerHTML = html;
+                experimentList.style.display = 'block';
+                experimentList.querySelectorAll('.experiment-item').forEach(item => {
+                    item.addEventListener('click', () => sendMessage('switchExperiment', { name: item.dataset.name }));
+                });
             } else {
-                timelineList.innerHTML = '<div class="empty-state">No captures yet. Create your first!</div>';
+                experimentList.style.display = 'none';
             }
 
             // Update setup section visibility
@@ -512,6 +733,116 @@ export class SidebarProvider implements vscode.WebviewViewProvider {
             }
         }
 
+        // Graph view: main and each experiment in its own lane
+        let showingGraph = false;
+        let olderWasVisible = false;
+
+        function toggleGraph() {
+            showingGraph = !showingGraph;
+            const older = document.getElementById('olderTimeline');
+            document.getElementById('graphToggle').textContent = showingGraph ? 'List' : 'Graph';
+            document.getElementById('timelineList').style.display = showingGraph ? 'none' : 'block';
+            document.getElementById('timelineGraph').style.display = showingGraph ? 'block' : 'none';
+            if (showingGraph) {
+                olderWasVisible = older.style.display === 'block';
+                older.style.display = 'none';
+                document.getElementById('timelineGraph').innerHTML = '<div class="empty-state">Drawing your timeline...</div>';
+                sendMessage('graph');
+            } else {
+                older.style.display = olderWasVisible ? 'block' : 'none';
+            }
+        }
+
+        function renderGraph(graph) {
+            const container = document.getElementById('timelineGraph');
+            if (!graph || !graph.success || graph.nodes.length === 0) {
+                container.innerHTML = '<div class="empty-state">' + escapeHtml(graph ? graph.message : 'No captures yet') + '</div>';
+                return;
+            }
+
+            const rowHeight = 34, laneWidth = 14, pad = 10;
+            const laneColors = ['var(--vscode-charts-green)', 'var(--vscode-charts-blue)', 'var(--vscode-charts-purple)', 'var(--vscode-charts-orange)'];
+            const lanes = Math.max(...graph.nodes.map(n => n.lane)) + 1;
+            const width = pad * 2 + (lanes - 1) * laneWidth;
+            const height = graph.nodes.length * rowHeight;
+            const x = lane => pad + lane * laneWidth;
+            const y = row => row * rowHeight + 9;
+            const rowOf = {};
+            graph.nodes.forEach((node, row) => { rowOf[node.hash] = row; });
+
+            let paths = '';
+            graph.nodes.forEach((node, row) => {
+                node.parents.forEach((parent, index) => {
+                    const x1 = x(node.lane), y1 = y(row);
+                    const parentRow = rowOf[parent];
+                    if (parentRow === undefined) {
+                        // History carries on beyond what's shown
+                        if (index === 0) paths += '<path d="M' + x1 + ' ' + y1 + ' V' + height + '" stroke="' + laneColors[node.lane % 4] + '"/>';
+                        return;
+                    }
+                    const parentNode = graph.nodes[parentRow];
+                    const x2 = x(parentNode.lane), y2 = y(parentRow);
+                    let d;
+                    if (x1 === x2) {
+                        d = 'M' + x1 + ' ' + y1 + ' V' + y2;
+                    } else if (index > 0) {
+                        // A keep: swing out to the experiment's lane just below the merge
+                        d = 'M' + x1 + ' ' + y1 + ' Q' + x2 + ' ' + y1 + ' ' + x2 + ' ' + (y1 + rowHeight / 2) + ' V' + y2;
+                    } else {
+                        // A fork: run down the experiment's lane, then curve into where it started
+                        d = 'M' + x1 + ' ' + y1 + ' V' + (y2 - rowHeight / 2) + ' Q' + x1 + ' ' + y2 + ' ' + x2 + ' ' + y2;
+                    }
+                    // Colored by the experiment's lane on both forks and keeps
+                    const lane = index > 0 ? parentNode.lane : node.lane;
+                    paths += '<path d="' + d + '" stroke="' + laneColors[lane % 4] + '"/>';
+                });
+            });
+
+            let dots = '';
+            let rows = '';
+            graph.nodes.forEach((node, row) => {
+                const cx = x(node.lane), cy = y(row);
+                dots += node.milestones && node.milestones.length
+                    ? '<rect x="' + (cx - 4) + '" y="' + (cy - 4) + '" width="8" height="8" transform="rotate(45 ' + cx + ' ' + cy + ')" fill="var(--vscode-charts-yellow)"/>'
+                    : '<circle cx="' + cx + '" cy="' + cy + '" r="4" fill="' + laneColors[node.lane % 4] + '"/>';
+
+                const lane = graph.lanes.find(l => l.id === node.branch);
+                const first = graph.nodes.findIndex(n => n.branch === node.branch) === row;
+                const msg = node.message.length > 40 ? node.message.substring(0, 37) + '...' : node.message;
+                const meta = ['<span class="date">' + node.relativeDate + '</span>'];
+                if (lane && lane.state !== 'main' && first) meta.push('<span class="graph-lane-name">🧪 ' + escapeHtml(lane.humanName) + '</span>');
+                node.keeps.forEach(name => meta.push('<span>kept ' + escapeHtml(name) + '</span>'));
+                node.forks.forEach(name => meta.push('<span>' + escapeHtml(name) + ' started</span>'));
+                if (node.milestones && node.milestones.length) meta.push('<span class="timeline-milestone">🏁 ' + escapeHtml(node.milestones.join(', ')) + '</span>');
+
+                rows += '<div class="graph-row" style="padding-left: ' + width + 'px;">' +
+                    '<div class="timeline-message">' + escapeHtml(msg) + '</div>' +
+                    '<div class="timeline-meta">' + meta.join('') + '</div>' +
+                    '</div>';
+            });
+
+            container.innerHTML = '<svg width="' + width + '" height="' + height + '" fill="none" stroke-width="2">' + paths + dots + '</svg>' + rows;
+        }
+
+        function timelineItemHtml(entry) {
+            // Truncate long messages
+            const msg = entry.message.length > 60
+                ? entry.message.substring(0, 57) + '...'
+                : entry.message;
+            const milestone = entry.milestones && entry.milestones.length
+                ? '<div class="timeline-milestone">🏁 ' + escapeHtml(entry.milestones.join(', ')) + '</div>'
+                : '';
+            return '<div class="timeline-item' + (milestone ? ' milestone' : '') + '">' +
+                milestone +
+                '<div class="timeline-message">' + escapeHtml(msg) + '</div>' +
+                (entry.note ? '<div class="timeline-note" title="' + escapeHtml(entry.note).replace(/"/g, '&quot;') + '">✎ ' + escapeHtml(entry.note.split('\\n')[0]) + '</div>' : '') +
+                '<div class="timeline-meta">' +
+                '<span class="date">' + entry.relativeDate + '</span>' +
+                (entry.filesChanged ? '<span> · ' + entry.filesChanged + ' file' + (entry.filesChanged !== 1 ? 's' : '') + '</span>' : '') +
+                '</div>' +
+                '</div>';
+        }
+
         function escapeHtml(text) {
             const div = document.createElement('div');
             div.textContent = text;
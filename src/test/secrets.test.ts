@@ -0,0 +1,46 @@
+/**
+ * Sacred Timeline - secret scanning
+ * Run with "npm test". Each test scans a throwaway project.
+ */
+
+import { test } from 'node:test';
+import * as assert from 'node:assert';
+import { execFileSync } from 'child_process';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { SacredTimeline } from '../git-wrapper';
+
+// A fresh project holding one uncaptured file with these lines
+async function scanLines(lines: string[]): Promise<string[]> {
+    const project = fs.mkdtempSync(path.join(os.tmpdir(), 'sacred-test-'));
+    try {
+        execFileSync('git', ['init', '-q'], { cwd: project });
+        fs.writeFileSync(path.join(project, 'notes.md'), lines.join('\n') + '\n');
+        const result = await new SacredTimeline(project, { logCache: false }).scanSecrets('pending');
+        return result.findings.map(finding => finding.rule);
+    } finally {
+        fs.rmSync(project, { recursive: true, force: true });
+    }
+}
+
+test('ordinary writing named like a secret is not flagged', async () => {
+    const findings = await scanLines([
+        'Authentication: handled-by-the-identity-provider',
+        'tokenizer = bert-base-multilingual-cased',
+        'secret_path = src/components/Button.tsx',
+        'password_policy: at-least-twelve-characters',
+        'The auth token lives in the vault, see docs/security/tokens.md'
+    ]);
+
+    assert.deepStrictEqual(findings, []);
+});
+
+test('a random-looking value named like a secret is flagged', async () => {
+    const findings = await scanLines([
+        'api_key = "q8Zr4Lm2Xv9Tn6Wp3Ks7Bd1Hf5"',
+        'SESSION_SECRET=3f9a2b7c8d1e4f6a0b5c9d2e'
+    ]);
+
+    assert.deepStrictEqual(findings, ['high-entropy', 'high-entropy']);
+});
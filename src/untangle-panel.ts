@@ -0,0 +1,267 @@
+/**
+ * Sacred Timeline - Untangle Panel
+ *
+ * Guided, one-file-at-a-time conflict resolution for non-coders
+ */
+
+import * as vscode from 'vscode';
+import { SacredTimeline, UntangleChoice } from './git-wrapper';
+
+export class UntanglePanel {
+    private static _current?: UntanglePanel;
+
+    private readonly _panel: vscode.WebviewPanel;
+    private _disposables: vscode.Disposable[] = [];
+
+    public static show(sacredTimeline: SacredTimeline, onChange: () => void) {
+        if (UntanglePanel._current) {
+            UntanglePanel._current._panel.reveal(vscode.ViewColumn.One);
+            UntanglePanel._current._update();
+            return;
+        }
+
+        const panel = vscode.window.createWebviewPanel(
+            'sacredTimeline.untangle',
+            'Untangle',
+            vscode.ViewColumn.One,
+            { enableScripts: true }
+        );
+
+        UntanglePanel._current = new UntanglePanel(panel, sacredTimeline, onChange);
+    }
+
+    private constructor(
+        panel: vscode.WebviewPanel,
+        private readonly _sacredTimeline: SacredTimeline,
+        private readonly _onChange: () => void
+    ) {
+        this._panel = panel;
+        this._panel.webview.html = this._getHtmlForWebview();
+
+        this._panel.onDidDispose(() => this._dispose(), null, this._disposables);
+
+        // Handle messages from the webview
+        this._panel.webview.onDidReceiveMessage(async (data) => {
+            let result: { success: boolean; message: string } | undefined;
+
+            switch (data.type) {
+                case 'choose':
+                    result = await this._sacredTimeline.untangleFile(data.path, data.choice as UntangleChoice);
+                    break;
+                case 'resolved':
+                    result = await this._sacredTimeline.markUntangled(data.path);
+                    break;
+                case 'open': {
+                    const root = vscode.workspace.workspaceFolders?.[0]?.uri;
+                    if (root) {
+                        vscode.window.showTextDocument(vscode.Uri.joinPath(root, data.path), { viewColumn: vscode.ViewColumn.Beside });
+                    }
+                    break;
+                }
+                case 'abandon': {
+                    const confirm = await vscode.window.showWarningMessage(
+                        'Abandon untangling? Everything goes back to how it was before.',
+                        'Yes, abandon',
+                        'Cancel'
+                    );
+                    if (confirm === 'Yes, abandon') {
+                        result = await this._sacredTimeline.abandonUntangle();
+                    }
+                    break;
+                }
+                case 'refresh':
+                    break;
+            }
+
+            if (result) {
+                if (result.success) {
+                    vscode.window.showInformationMessage(result.message);
+                } else {
+                    vscode.window.showWarningMessage(result.message);
+                }
+                this._onChange();
+            }
+
+            this._update();
+        }, null, this._disposables);
+
+        this._update();
+    }
+
+    private async _update() {
+        const state = await this._sacredTimeline.listTangles();
+        this._panel.webview.postMessage({ type: 'update', state });
+    }
+
+    private _dispose() {
+        UntanglePanel._current = undefined;
+        this._disposables.forEach(d => d.dispose());
+        this._disposables = [];
+    }
+
+    private _getHtmlForWebview() {
+        return `<!DOCTYPE html>
+<html lang="en">
+<head>
+    <meta charset="UTF-8">
+    <meta name="viewport" content="width=device-width, initial-scale=1.0">
+    <title>Untangle</title>
+    <style>
+        body {
+            font-family: var(--vscode-font-family);
+            font-size: var(--vscode-font-size);
+            color: var(--vscode-foreground);
+            padding: 16px 24px;
+            max-width: 720px;
+        }
+
+        h2 {
+            font-size: 16px;
+            font-weight: 600;
+            margin-bottom: 4px;
+        }
+
+        .intro {
+            color: var(--vscode-descriptionForeground);
+            margin-bottom: 16px;
+            line-height: 1.5;
+        }
+
+        .file {
+            background: var(--vscode-editor-background);
+            border: 1px solid var(--vscode-widget-border);
+            border-radius: 4px;
+            padding: 12px;
+            margin-bottom: 12px;
+        }
+
+        .file-name {
+            font-weight: 600;
+            margin-bottom: 4px;
+        }
+
+        .file-note {
+            font-size: 11px;
+            color: var(--vscode-descriptionForeground);
+            margin-bottom: 8px;
+        }
+
+        .actions {
+            display: flex;
+            flex-wrap: wrap;
+            gap: 6px;
+        }
+
+        button {
+            padding: 6px 10px;
+            border: none;
+            border-radius: 4px;
+            background: var(--vscode-button-secondaryBackground);
+            color: var(--vscode-button-secondaryForeground);
+            cursor: pointer;
+            font-size: 12px;
+        }
+
+        button:hover {
+            background: var(--vscode-button-secondaryHoverBackground);
+        }
+
+        button.primary {
+            background: var(--vscode-button-background);
+            color: var(--vscode-button-foreground);
+        }
+
+        .abandon {
+            margin-top: 16px;
+        }
+
+        .empty-state {
+            text-align: center;
+            padding: 40px 20px;
+            color: var(--vscode-descriptionForeground);
+        }
+    </style>
+</head>
+<body>
+    <h2>🧶 Untangle</h2>
+    <div class="intro" id="intro"></div>
+    <div id="files"></div>
+    <div class="abandon" id="abandon" style="display: none;">
+        <button onclick="send('abandon')">↩ Abandon and go back to before</button>
+    </div>
+
+    <script>
+        const vscode = acquireVsCodeApi();
+
+        function send(type, payload) {
+            vscode.postMessage({ type, ...payload });
+        }
+
+        window.addEventListener('message', event => {
+            if (event.data.type === 'update') {
+                render(event.data.state);
+            }
+        });
+
+        function render(state) {
+            const intro = document.getElementById('intro');
+            const files = document.getElementById('files');
+            const abandon = document.getElementById('abandon');
+
+            if (!state.inProgress || state.files.length === 0) {
+                intro.textContent = '';
+                files.innerHTML = '<div class="empty-state">Nothing is tangled. Your timeline is whole.</div>';
+                abandon.style.display = 'none';
+                return;
+            }
+
+            intro.innerHTML = 'The same part of ' + state.files.length + ' file' + (state.files.length !== 1 ? 's' : '') +
+                ' changed in two places. For each one, choose which version to keep.<br>' +
+                '<strong>Mine</strong> is ' + escapeHtml(state.mine) + '; <strong>theirs</strong> is ' + escapeHtml(state.theirs) + '.';
+
+            let html = '';
+            state.files.forEach((file, index) => {
+                const name = escapeHtml(file.path);
+                let note = '';
+                if (!file.inMine) note = 'Removed in ' + escapeHtml(state.mine) + '.';
+                if (!file.inTheirs) note = 'Removed in ' + escapeHtml(state.theirs) + '.';
+                html += '<div class="file" data-index="' + index + '">' +
+                    '<div class="file-name">' + name + '</div>' +
+                    (note ? '<div class="file-note">' + note + '</div>' : '') +
+                    '<div class="actions">' +
+                    '<button class="primary" data-choice="mine">Keep mine</button>' +
+                    '<button class="primary" data-choice="theirs">Keep theirs</button>' +
+                    '<button data-choice="both">Keep both</button>' +
+                    '<button data-action="open">Open and edit</button>' +
+                    '<button data-action="resolved">I fixed it by hand</button>' +
+                    '</div></div>';
+            });
+            files.innerHTML = html;
+            abandon.style.display = 'block';
+
+            files.querySelectorAll('.file').forEach(el => {
+                const path = state.files[Number(el.dataset.index)].path;
+                el.querySelectorAll('button').forEach(button => {
+                    button.addEventListener('click', () => {
+                        if (button.dataset.choice) {
+                            send('choose', { path, choice: button.dataset.choice });
+                        } else {
+                            send(button.dataset.action, { path });
+                        }
+                    });
+                });
+            });
+        }
+
+        function escapeHtml(text) {
+            const div = document.createElement('div');
+            div.textContent = text;
+            return div.innerHTML;
+        }
+
+        send('refresh');
+    </script>
+</body>
+</html>`;
+    }
+}